@@ -7,24 +7,34 @@
 import { getWorkerEngine } from "../core/worker-engine.ts";
 import { getMonitorEngine } from "../core/monitor-engine.ts";
 import { getIssue } from "../core/beads.ts";
+import { getOpenCodeClient } from "../core/opencode.ts";
+import type { AgentShepherdConfig } from "../core/config.ts";
 import { findAgentShepherdDir, findInstallDir } from "../core/path-utils.ts";
 import { existsSync, mkdirSync, writeFileSync, readdirSync, readFileSync, cpSync, rmSync } from "fs";
 import { join } from "path";
 import path from "path";
 import { execSync } from "child_process";
-import { homedir, platform } from "os";
+import { homedir, platform, userInfo } from "os";
 import { policyCapabilityValidator } from "../core/policy-capability-validator";
 
 const COMMANDS: Record<string, string> = {
   worker: "Start the autonomous worker loop",
   monitor: "Start the supervision loop",
   work: "Manually process a specific issue",
+  "render-prompt": "Preview the instructions a phase would send to its agent",
   init: "Initialize .agent-shepherd configuration",
   install: "Check and install dependencies",
   "sync-agents": "Sync agent registry with OpenCode",
   ui: "Start the flow visualization server",
   "validate-policy-chain": "Validate policy-capability-agent chain integrity",
   "show-policy-tree": "Display policy-capability-agent relationship tree",
+  policy: "Inspect policy changes (policy diff [file])",
+  simulate: "Walk a policy's transitions with scripted outcomes",
+  approvals: "List results awaiting human approval",
+  approve: "Approve the result an issue is waiting on",
+  reject: "Reject the result an issue is waiting on",
+  questions: "List agent questions awaiting an answer",
+  answer: "Answer the question an issue is waiting on",
   quickstart: "One-command onboarding with dependencies, configs, and demo workflow",
   "plugin-install": "Install a plugin from path or URL",
   "plugin-activate": "Activate a plugin",
@@ -136,9 +146,16 @@ ${Object.entries(COMMANDS)
     ashep init                # Initialize configuration
     ashep worker              # Start autonomous worker
     ashep work ISSUE-123      # Process specific issue
+    ashep work ISSUE-123 --policy simple  # Override policy selection
+    ashep render-prompt ISSUE-123 --phase test  # Preview phase instructions
     ashep ui                  # Start visualization UI
     ashep validate-policy-chain  # Validate policy relationships
     ashep show-policy-tree    # Show relationship tree
+    ashep policy diff         # Show in-flight issues a policies.yaml edit affects
+    ashep simulate default --outcomes success,fail,success  # Dry-run a policy
+    ashep approvals           # List pending approvals
+    ashep reject ISSUE-123 --reason "Missing tests"  # Send a result back
+    ashep answer ISSUE-123 "Use PostgreSQL"  # Answer an agent's question
 
 For detailed documentation, see: README.md
 Configuration guide: docs/cli-reference.md
@@ -155,11 +172,25 @@ async function cmdWorker(): Promise<void> {
   const { validateStartup } = await import("../core/config-validator.ts");
   await validateStartup();
 
-  const worker = getWorkerEngine();
+  const { loadConfig } = await import("../core/config.ts");
+  const config = loadConfig();
+  configureOpenCode(config);
+
+  const worker = getWorkerEngine(config.worker);
+
+  // Pick up edits to the configuration files without a restart
+  const { ConfigReloader } = await import("../core/config-reloader.ts");
+  const reloader = new ConfigReloader();
+  reloader.onConfigChange((updated) => {
+    worker.updateConfig(updated.worker);
+    configureOpenCode(updated);
+  });
+  reloader.start();
 
   // Handle graceful shutdown
   process.on("SIGINT", () => {
     console.log("\nStopping worker...");
+    reloader.stop();
     worker.stop();
     process.exit(0);
   });
@@ -177,14 +208,28 @@ async function cmdMonitor(): Promise<void> {
   const { validateStartup } = await import("../core/config-validator.ts");
   await validateStartup();
 
-  const monitor = getMonitorEngine();
+  const { loadConfig } = await import("../core/config.ts");
+  const config = loadConfig();
+  configureOpenCode(config);
+
+  const monitor = getMonitorEngine(config.monitor);
 
   // Resume any interrupted runs
   await monitor.resumeInterruptedRuns();
 
+  // Pick up edits to the configuration files without a restart
+  const { ConfigReloader } = await import("../core/config-reloader.ts");
+  const reloader = new ConfigReloader();
+  reloader.onConfigChange((updated) => {
+    monitor.updateConfig(updated.monitor);
+    configureOpenCode(updated);
+  });
+  reloader.start();
+
   // Handle graceful shutdown
   process.on("SIGINT", () => {
     console.log("\nStopping monitor...");
+    reloader.stop();
     monitor.stop();
     process.exit(0);
   });
@@ -192,13 +237,26 @@ async function cmdMonitor(): Promise<void> {
   await monitor.start();
 }
 
+/**
+ * Configure the shared OpenCode client from config.yaml, also when a
+ * reload changes its settings
+ */
+function configureOpenCode(config: AgentShepherdConfig): void {
+  const settings = {
+    transport: config.opencode?.transport,
+    serverUrl: config.opencode?.server_url,
+    pollIntervalMs: config.opencode?.poll_interval_ms,
+  };
+  getOpenCodeClient(settings).updateConfig(settings);
+}
+
 /**
  * Work command - process specific issue
  */
-async function cmdWork(issueId: string): Promise<void> {
+async function cmdWork(issueId: string, policy?: string): Promise<void> {
   if (!issueId) {
     console.error("Error: Issue ID required");
-    console.log("Usage: ashep work <issue-id>");
+    console.log("Usage: ashep work <issue-id> [--policy <name>]");
     process.exit(1);
   }
 
@@ -210,8 +268,11 @@ async function cmdWork(issueId: string): Promise<void> {
     process.exit(1);
   }
 
+  const { loadConfig } = await import("../core/config.ts");
+  configureOpenCode(loadConfig());
+
   const worker = getWorkerEngine();
-  const result = await worker.processIssue(issue);
+  const result = await worker.processIssue(issue, { policy });
 
   console.log("\nResult:");
   console.log(`  Success: ${result.success}`);
@@ -224,6 +285,34 @@ async function cmdWork(issueId: string): Promise<void> {
   }
 }
 
+/**
+ * Render prompt command - preview phase instructions without running an agent
+ */
+async function cmdRenderPrompt(
+  issueId: string,
+  phase?: string,
+  policy?: string
+): Promise<void> {
+  if (!issueId) {
+    console.error("Error: Issue ID required");
+    console.log("Usage: ashep render-prompt <issue-id> [--phase <name>] [--policy <name>]");
+    process.exit(1);
+  }
+
+  const issue = await getIssue(issueId);
+  if (!issue) {
+    console.error(`Error: Issue ${issueId} not found`);
+    process.exit(1);
+  }
+
+  try {
+    console.log(getWorkerEngine().renderPrompt(issue, { phase, policy }));
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
 /**
  * Init command - create default configuration
  */
@@ -699,6 +788,224 @@ async function cmdShowPolicyTree(format?: string): Promise<void> {
   }
 }
 
+/**
+ * Policy diff command - show which in-flight issues a changed policies
+ * file would move to a new policy version, and how
+ */
+async function cmdPolicyDiff(file?: string): Promise<void> {
+  const { PolicyEngine } = await import("../core/policy.ts");
+  const { getLogger } = await import("../core/logging.ts");
+  const { getConfigPath } = await import("../core/path-utils.ts");
+  const { diffPolicies, findAffectedWorkflows } = await import("../core/policy-migration.ts");
+
+  const policiesPath = file || getConfigPath("policies.yaml");
+  let candidate: InstanceType<typeof PolicyEngine>;
+  try {
+    candidate = new PolicyEngine(policiesPath);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  const logger = getLogger();
+  const affected = findAffectedWorkflows(
+    logger.listWorkflowStates(["active", "blocked"]),
+    candidate,
+    (hash) => logger.getPolicyVersion(hash)?.config || null
+  );
+
+  if (affected.length === 0) {
+    console.log(`✅ No in-flight issues are affected by ${policiesPath}`);
+    return;
+  }
+
+  console.log(`📋 ${affected.length} in-flight issue(s) affected by ${policiesPath}\n`);
+
+  // One section per policy version the affected issues are on
+  const versions = [...new Set(affected.map((entry) => `${entry.policy_name}@${entry.from_hash}`))];
+  for (const version of versions) {
+    const entries = affected.filter((entry) => `${entry.policy_name}@${entry.from_hash}` === version);
+    const { policy_name, from_hash, to_hash } = entries[0];
+    console.log(`Policy '${policy_name}' (${from_hash} -> ${to_hash || "removed"})`);
+
+    const before = logger.getPolicyVersion(from_hash)?.config;
+    const after = candidate.getPolicy(policy_name);
+    if (before && after) {
+      const diff = diffPolicies(before, after);
+      diff.added.forEach((phase) => console.log(`  + ${phase}`));
+      diff.removed.forEach((phase) => console.log(`  - ${phase}`));
+      diff.changed.forEach((phase) => console.log(`  ~ ${phase}`));
+    }
+    if (after) {
+      console.log(`  Migration: ${after.migration?.strategy || "map"}`);
+    }
+
+    for (const entry of entries) {
+      const target = entry.plan.to_phase ? ` -> ${entry.plan.to_phase}` : "";
+      console.log(`  • ${entry.issue_id}: ${entry.plan.action} (${entry.plan.from_phase}${target})`);
+      console.log(`    ${entry.plan.reason}`);
+    }
+    console.log();
+  }
+}
+
+/**
+ * Simulate command - walk a policy's transitions with scripted outcomes
+ */
+async function cmdSimulate(
+  policyName: string,
+  outcomes?: string,
+  format?: string,
+  file?: string
+): Promise<void> {
+  if (!policyName || !outcomes) {
+    console.error("Error: Policy name and outcomes required");
+    console.log(
+      "Usage: ashep simulate <policy> --outcomes success,fail,approve [--format table|json] [--policies <file>]"
+    );
+    process.exit(1);
+  }
+
+  const { PolicyEngine } = await import("../core/policy.ts");
+  const { getConfigPath } = await import("../core/path-utils.ts");
+  const { parseOutcomes, simulatePolicy, formatSimulationTable } = await import(
+    "../core/policy-simulator.ts"
+  );
+
+  try {
+    const policies = new PolicyEngine(file || getConfigPath("policies.yaml"));
+    const result = simulatePolicy(policies, policyName, parseOutcomes(outcomes));
+    console.log(format === "json" ? JSON.stringify(result, null, 2) : formatSimulationTable(result));
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Approvals command - list results awaiting human approval
+ */
+async function cmdApprovals(): Promise<void> {
+  const { getLogger } = await import("../core/logging.ts");
+  const approvals = getLogger().listApprovals({ status: "pending" });
+
+  if (approvals.length === 0) {
+    console.log("No pending approvals");
+    return;
+  }
+
+  console.log(`⏳ ${approvals.length} pending approval(s)\n`);
+  for (const approval of approvals) {
+    console.log(`${approval.issue_id}  ${approval.policy_name}.${approval.phase}  (${approval.agent_id})`);
+    console.log(`  Requested: ${new Date(approval.created_at).toISOString()}`);
+    if (!approval.success) {
+      console.log("  Note: the phase failed; approving retries it");
+    }
+    if (approval.approvers?.length) {
+      console.log(`  Approvers: ${approval.approvers.join(", ")}`);
+    }
+    if (approval.summary) {
+      console.log(`  Summary: ${approval.summary.trim().split("\n").join("\n           ")}`);
+    }
+    console.log();
+  }
+}
+
+/**
+ * Approve and reject commands - record a reviewer's decision and move the
+ * issue's workflow on
+ */
+async function cmdDecideApproval(
+  approved: boolean,
+  issueId: string,
+  note?: string
+): Promise<void> {
+  const command = approved ? "approve" : "reject";
+  if (!issueId || (!approved && !note)) {
+    console.error(approved ? "Error: Issue ID required" : "Error: Issue ID and reason required");
+    console.log(
+      approved
+        ? "Usage: ashep approve <issue-id> [--note <text>]"
+        : "Usage: ashep reject <issue-id> --reason <text>"
+    );
+    process.exit(1);
+  }
+
+  // Approver lists name login users; the decision is always made as the
+  // user running the command
+  const user = userInfo().username;
+
+  try {
+    const { approval, transition } = await getWorkerEngine().resolveApproval(issueId, {
+      approved,
+      approver: user,
+      note,
+    });
+    console.log(`✅ ${approved ? "Approved" : "Rejected"} ${issueId} at phase '${approval.phase}' as ${user}`);
+    console.log(
+      `  Next: ${transition.type}${transition.next_phase ? ` -> ${transition.next_phase}` : ""}${transition.reason ? ` (${transition.reason})` : ""}`
+    );
+  } catch (error) {
+    console.error(`❌ Could not ${command} ${issueId}: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Questions command - list agent questions awaiting an answer
+ */
+async function cmdQuestions(): Promise<void> {
+  const { getLogger } = await import("../core/logging.ts");
+  const questions = getLogger().listQuestions({ status: "pending" });
+
+  if (questions.length === 0) {
+    console.log("No pending questions");
+    return;
+  }
+
+  console.log(`❓ ${questions.length} pending question(s)\n`);
+  for (const question of questions) {
+    console.log(`${question.issue_id}  ${question.policy_name}.${question.phase}  (${question.agent_id})`);
+    console.log(`  Asked: ${new Date(question.created_at).toISOString()}`);
+    console.log(`  Question: ${question.question.trim().split("\n").join("\n            ")}`);
+    if (question.options?.length) {
+      console.log(`  Options: ${question.options.join(" | ")}`);
+    }
+    console.log();
+  }
+}
+
+/**
+ * Answer command - record a human's answer and reopen the issue so the
+ * phase that asked runs again
+ */
+async function cmdAnswer(issueId: string, answer?: string): Promise<void> {
+  if (!issueId || !answer?.trim()) {
+    console.error("Error: Issue ID and answer required");
+    console.log('Usage: ashep answer <issue-id> "<answer>"');
+    process.exit(1);
+  }
+
+  const answeredBy = userInfo().username;
+
+  try {
+    const { question, remaining } = await getWorkerEngine().answerQuestion(issueId, {
+      answer,
+      answered_by: answeredBy,
+    });
+    console.log(`✅ Answered ${issueId} at phase '${question.phase}' as ${answeredBy}`);
+    console.log(`  Q: ${question.question}`);
+    console.log(
+      remaining > 0
+        ? `  ${remaining} more question(s) pending before the issue reopens`
+        : "  Issue reopened; the phase runs again with the answer"
+    );
+  } catch (error) {
+    console.error(`❌ Could not answer ${issueId}: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
 /**
  * Plugin install command - install plugin from path or URL
  */
@@ -1154,9 +1461,45 @@ async function main(): Promise<void> {
       await cmdMonitor();
       break;
 
-    case "work":
-      await cmdWork(args[1]);
+    case "work": {
+      // Parse work arguments: <issue-id> --policy <name>
+      let issueId: string | undefined;
+      let policy: string | undefined;
+
+      for (let i = 1; i < args.length; i++) {
+        if (args[i] === '--policy' && i + 1 < args.length) {
+          policy = args[i + 1];
+          i++; // skip the next arg
+        } else if (!issueId) {
+          issueId = args[i];
+        }
+      }
+
+      await cmdWork(issueId!, policy);
       break;
+    }
+
+    case "render-prompt": {
+      // Parse arguments: <issue-id> --phase <name> --policy <name>
+      let issueId: string | undefined;
+      let phase: string | undefined;
+      let policy: string | undefined;
+
+      for (let i = 1; i < args.length; i++) {
+        if (args[i] === '--phase' && i + 1 < args.length) {
+          phase = args[i + 1];
+          i++; // skip the next arg
+        } else if (args[i] === '--policy' && i + 1 < args.length) {
+          policy = args[i + 1];
+          i++; // skip the next arg
+        } else if (!issueId) {
+          issueId = args[i];
+        }
+      }
+
+      await cmdRenderPrompt(issueId!, phase, policy);
+      break;
+    }
 
     case "init":
       cmdInit();
@@ -1212,6 +1555,72 @@ async function main(): Promise<void> {
       break;
     }
 
+    case "policy":
+      if (args[1] !== "diff") {
+        console.error("Usage: ashep policy diff [policies-file]");
+        process.exit(1);
+      }
+      await cmdPolicyDiff(args[2]);
+      break;
+
+    case "simulate": {
+      // Parse arguments: <policy> --outcomes <list> --format <table|json> --policies <file>
+      let policyName: string | undefined;
+      let outcomes: string | undefined;
+      let format: string | undefined;
+      let file: string | undefined;
+
+      for (let i = 1; i < args.length; i++) {
+        if (args[i] === '--outcomes' && i + 1 < args.length) {
+          outcomes = args[i + 1];
+          i++; // skip the next arg
+        } else if (args[i] === '--format' && i + 1 < args.length) {
+          format = args[i + 1];
+          i++; // skip the next arg
+        } else if (args[i] === '--policies' && i + 1 < args.length) {
+          file = args[i + 1];
+          i++; // skip the next arg
+        } else if (!policyName) {
+          policyName = args[i];
+        }
+      }
+
+      await cmdSimulate(policyName!, outcomes, format, file);
+      break;
+    }
+
+    case "approvals":
+      await cmdApprovals();
+      break;
+
+    case "approve":
+    case "reject": {
+      // Parse arguments: <issue-id> --note|--reason <text>
+      let issueId: string | undefined;
+      let note: string | undefined;
+
+      for (let i = 1; i < args.length; i++) {
+        if ((args[i] === '--note' || args[i] === '--reason') && i + 1 < args.length) {
+          note = args[i + 1];
+          i++; // skip the next arg
+        } else if (!issueId) {
+          issueId = args[i];
+        }
+      }
+
+      await cmdDecideApproval(command === "approve", issueId!, note);
+      break;
+    }
+
+    case "questions":
+      await cmdQuestions();
+      break;
+
+    case "answer":
+      // An unquoted answer arrives as several words
+      await cmdAnswer(args[1], args.slice(2).join(" "));
+      break;
+
     case "plugin-install":
       await cmdPluginInstall(args[1]);
       break;
@@ -6,7 +6,9 @@
 import { parse as parseYAML, stringify as stringifyYAML } from "yaml";
 import { readFileSync, writeFileSync } from "fs";
 import { getConfigPath } from "./path-utils";
-import { loadConfig } from "./config";
+import { loadConfig, type AgentShepherdConfig } from "./config";
+import type { AgentRuntime } from "./agent-runner";
+import type { PhaseConfig, PolicyConfig } from "./policy";
 
 export interface AgentConfig {
   id: string;
@@ -17,6 +19,10 @@ export interface AgentConfig {
   model_id?: string;     // Optional - uses OpenCode agent default if not specified
   priority?: number;
   active?: boolean;      // Optional - defaults to true, controls automation usage
+  max_concurrent?: number;  // Optional - most runs at once, unlimited if not specified
+  runtime?: AgentRuntime;  // Optional - defaults to "opencode"
+  command?: string;      // Command template for the "shell" runtime
+  fixture?: string;      // Scripted outcomes for the "mock" runtime
   constraints?: {
     read_only?: boolean;
     max_file_size?: number;
@@ -40,17 +46,34 @@ export interface AgentSelectionCriteria {
   performance_preference?: "fast" | "balanced" | "slow";
 }
 
+/**
+ * Where in the fallback hierarchy an agent was found
+ */
+export type FallbackLevel = "phase" | "policy" | "global";
+
+export interface FallbackSelection {
+  agent: AgentConfig;
+  capability?: string;  // Capability the fallback stands in for
+  level: FallbackLevel;
+  reason: string;       // The setting that named the agent
+}
+
 /**
  * Agent Registry for managing and selecting agents
  */
 export class AgentRegistry {
   private agents: Map<string, AgentConfig>;
   private configPath: string;
-  private config = loadConfig();
+  private config: AgentShepherdConfig;
+  private inFlight = new Map<string, string>();  // Run ID -> agent ID
+  private rotation = new Map<string, number>();  // Round-robin position per candidate list
+  private random: () => number = Math.random;
+  private releaseListeners = new Set<() => void>();
 
-  constructor(configPath?: string) {
+  constructor(configPath?: string, config?: AgentShepherdConfig) {
     this.agents = new Map();
     this.configPath = configPath || getConfigPath("agents.yaml");
+    this.config = config || loadConfig();
 
     // Try to load agents if config exists
     try {
@@ -61,7 +84,8 @@ export class AgentRegistry {
   }
 
   /**
-   * Load agents from YAML file
+   * Load agents from YAML file. All agents are validated before the
+   * registry is replaced, so a failed (re)load changes nothing.
    */
   loadAgents(filePath: string): void {
     try {
@@ -72,14 +96,14 @@ export class AgentRegistry {
         throw new Error("Invalid agents file: missing 'agents' key");
       }
 
-      // Clear existing agents
-      this.agents.clear();
-
       // Load all agents
+      const agents = new Map<string, AgentConfig>();
       for (const agent of config.agents) {
         this.validateAgent(agent);
-        this.agents.set(agent.id, agent);
+        agents.set(agent.id, agent);
       }
+
+      this.agents = agents;
     } catch (error) {
       throw new Error(
         `Failed to load agents from ${filePath}: ${error instanceof Error ? error.message : String(error)}`
@@ -87,6 +111,13 @@ export class AgentRegistry {
     }
   }
 
+  /**
+   * Apply reloaded config.yaml settings (the fallback hierarchy)
+   */
+  updateConfig(config: AgentShepherdConfig): void {
+    this.config = config;
+  }
+
   /**
    * Save agents to YAML file
    */
@@ -113,6 +144,21 @@ export class AgentRegistry {
     if (!agent.capabilities || agent.capabilities.length === 0) {
       throw new Error(`Agent '${agent.id}' must have at least one capability`);
     }
+    if (agent.runtime && !["opencode", "shell", "mock"].includes(agent.runtime)) {
+      throw new Error(`Agent '${agent.id}' has unknown runtime '${agent.runtime}'`);
+    }
+    if (agent.runtime === "shell" && !agent.command) {
+      throw new Error(`Agent '${agent.id}' uses the shell runtime and must have a command`);
+    }
+    if (agent.runtime === "mock" && !agent.fixture) {
+      throw new Error(`Agent '${agent.id}' uses the mock runtime and must have a fixture`);
+    }
+    if (
+      agent.max_concurrent !== undefined &&
+      (!Number.isInteger(agent.max_concurrent) || agent.max_concurrent < 1)
+    ) {
+      throw new Error(`Agent '${agent.id}' must have a max_concurrent of at least 1`);
+    }
     // provider_id and model_id are now optional - will use OpenCode defaults if not specified
     // active field is optional and defaults to true
   }
@@ -180,9 +226,64 @@ export class AgentRegistry {
   }
 
   /**
-   * Select best agent based on criteria
+   * Select an agent based on criteria. Agents at their max_concurrent
+   * limit are skipped and the configured strategy chooses among the rest.
    */
   selectAgent(criteria: AgentSelectionCriteria): AgentConfig | null {
+    const candidates = this.findCandidates(criteria);
+    const available = candidates.filter((agent) => this.hasCapacity(agent.id));
+    if (available.length === 0) {
+      return null;
+    }
+
+    switch (this.config.agent_selection?.strategy || "priority") {
+      case "round_robin": {
+        // Rotate over all candidates, so busy agents keep their turn
+        const key = candidates.map((agent) => agent.id).join(",");
+        const start = this.rotation.get(key) || 0;
+        for (let offset = 0; offset < candidates.length; offset++) {
+          const index = (start + offset) % candidates.length;
+          if (this.hasCapacity(candidates[index].id)) {
+            this.rotation.set(key, index + 1);
+            return candidates[index];
+          }
+        }
+        return null;
+      }
+
+      case "least_loaded":
+        // The sort is stable, so priority breaks ties
+        return [...available].sort(
+          (a, b) => this.getInFlightCount(a.id) - this.getInFlightCount(b.id)
+        )[0];
+
+      case "weighted_random": {
+        // Negative priorities count as 0; if nothing has weight, pick uniformly
+        const weight = (agent: AgentConfig) => Math.max(agent.priority ?? 1, 0);
+        const weighted = available.filter((agent) => weight(agent) > 0);
+        if (weighted.length === 0) {
+          return available[Math.floor(this.random() * available.length)];
+        }
+        let pick = this.random() * weighted.reduce((sum, agent) => sum + weight(agent), 0);
+        for (const agent of weighted) {
+          pick -= weight(agent);
+          if (pick < 0) {
+            return agent;
+          }
+        }
+        return weighted[weighted.length - 1];
+      }
+
+      default:
+        return available[0];
+    }
+  }
+
+  /**
+   * Find the active agents that meet the criteria, highest priority first,
+   * whether or not they have capacity left
+   */
+  findCandidates(criteria: AgentSelectionCriteria): AgentConfig[] {
     let candidates = this.getAllAgents().filter(agent => agent.active !== false); // Only consider active agents
 
     // Filter by required capabilities
@@ -222,11 +323,6 @@ export class AgentRegistry {
       );
     }
 
-    // If no candidates, return null
-    if (candidates.length === 0) {
-      return null;
-    }
-
     // Sort by priority (higher is better)
     candidates.sort((a, b) => {
       const priorityA = a.priority || 0;
@@ -234,8 +330,55 @@ export class AgentRegistry {
       return priorityB - priorityA;
     });
 
-    // Return highest priority agent
-    return candidates[0];
+    return candidates;
+  }
+
+  /**
+   * Count a run against its agent's max_concurrent limit until released
+   */
+  acquire(agentId: string, runId: string): void {
+    this.inFlight.set(runId, agentId);
+  }
+
+  /**
+   * Release the capacity a run held
+   */
+  release(runId: string): void {
+    if (this.inFlight.delete(runId)) {
+      this.releaseListeners.forEach((listener) => listener());
+    }
+  }
+
+  /**
+   * Register a listener called whenever a run releases its capacity.
+   * Returns a function that removes the listener.
+   */
+  onRelease(listener: () => void): () => void {
+    this.releaseListeners.add(listener);
+    return () => {
+      this.releaseListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Number of runs an agent has in flight in this process
+   */
+  getInFlightCount(agentId: string): number {
+    let count = 0;
+    for (const id of this.inFlight.values()) {
+      if (id === agentId) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Check whether an agent can take another run
+   */
+  hasCapacity(agentId: string): boolean {
+    const limit = this.getAgent(agentId)?.max_concurrent;
+    return !limit || this.getInFlightCount(agentId) < limit;
   }
 
   /**
@@ -561,12 +704,12 @@ export class AgentRegistry {
       };
     }
 
-    const fallbackAgent = this.getFallbackAgent(capability, policy, phase);
+    const fallback = this.resolveFallbackAgent(capability, policy, phase);
 
-    if (fallbackAgent) {
-      console.log(`ℹ️ Using fallback agent '${fallbackAgent.name}' for capability '${capability}'`);
+    if (fallback) {
+      console.log(`ℹ️ Using fallback agent '${fallback.agent.name}' for capability '${capability}'`);
       return {
-        agent: fallbackAgent,
+        agent: fallback.agent,
         usedFallback: true
       };
     }
@@ -578,57 +721,101 @@ export class AgentRegistry {
   }
 
   /**
-   * Get fallback agent for a capability following cascading hierarchy
+   * Find a fallback agent for a phase that no agent can run. Capabilities
+   * that no active agent provides are looked up first; when each is
+   * provided but no single agent has them all, any of them may name the
+   * fallback.
    */
-  private getFallbackAgent(
-    capability: string,
-    policy: any,
-    phase: any
-  ): AgentConfig | null {
+  selectFallbackAgent(
+    capabilities: string[],
+    policy?: PolicyConfig | null,
+    phase?: PhaseConfig | null
+  ): FallbackSelection | null {
+    const missing = capabilities.filter((capability) =>
+      this.getAgentsByCapability(capability).every((agent) => agent.active === false)
+    );
+    const lookups: Array<string | undefined> =
+      missing.length > 0 ? missing : capabilities.length > 0 ? capabilities : [undefined];
+
+    for (const capability of lookups) {
+      const fallback = this.resolveFallbackAgent(capability, policy, phase);
+      if (fallback) {
+        return fallback;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get fallback agent for a capability following cascading hierarchy:
+   * the phase's fallback_agent, the policy's fallback_mappings, the global
+   * mappings, then the policy's fallback_agent or the global default_agent.
+   * fallback_enabled: false on a phase or policy stops the cascade there,
+   * and nothing falls back unless fallback is enabled globally.
+   */
+  resolveFallbackAgent(
+    capability: string | undefined,
+    policy?: PolicyConfig | null,
+    phase?: PhaseConfig | null
+  ): FallbackSelection | null {
     const config = this.config;
 
     if (!config.fallback?.enabled) {
       return null;
     }
 
-    if (phase?.fallback_agent) {
-      const agent = this.getAgent(phase.fallback_agent);
-      if (agent && agent.active !== false) {
-        return agent;
-      }
+    const find = (
+      agentId: string | undefined,
+      level: FallbackLevel,
+      reason: string
+    ): FallbackSelection | null => {
+      const agent = agentId ? this.getAgent(agentId) : undefined;
+      return agent && agent.active !== false ? { agent, capability, level, reason } : null;
+    };
+
+    const fromPhase = find(
+      phase?.fallback_agent,
+      "phase",
+      `fallback_agent of phase '${phase?.name}'`
+    );
+    if (fromPhase) {
+      return fromPhase;
     }
 
     if (phase?.fallback_enabled === false) {
       return null;
     }
 
-    if (policy?.fallback_mappings?.[capability]) {
-      const agent = this.getAgent(policy.fallback_mappings[capability]);
-      if (agent && agent.active !== false) {
-        return agent;
-      }
+    const fromPolicyMapping = capability
+      ? find(
+          policy?.fallback_mappings?.[capability],
+          "policy",
+          `policy fallback_mappings for '${capability}'`
+        )
+      : null;
+    if (fromPolicyMapping) {
+      return fromPolicyMapping;
     }
 
     if (policy?.fallback_enabled === false) {
       return null;
     }
 
-    if (config.fallback?.mappings?.[capability]) {
-      const agent = this.getAgent(config.fallback.mappings[capability]);
-      if (agent && agent.active !== false) {
-        return agent;
-      }
-    }
-
-    const fallbackAgentId = policy?.fallback_agent || config.fallback?.default_agent;
-    if (fallbackAgentId) {
-      const agent = this.getAgent(fallbackAgentId);
-      if (agent && agent.active !== false) {
-        return agent;
-      }
+    const fromGlobalMapping = capability
+      ? find(
+          config.fallback.mappings?.[capability],
+          "global",
+          `global fallback mappings for '${capability}'`
+        )
+      : null;
+    if (fromGlobalMapping) {
+      return fromGlobalMapping;
     }
 
-    return null;
+    return policy?.fallback_agent
+      ? find(policy.fallback_agent, "policy", "policy fallback_agent")
+      : find(config.fallback.default_agent, "global", "global default_agent");
   }
 }
 
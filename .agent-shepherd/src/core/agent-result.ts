@@ -0,0 +1,117 @@
+/**
+ * Agent Result
+ * Extracts and validates the structured result block agents end a phase with
+ */
+
+import Ajv from "ajv";
+import addFormats from "ajv-formats";
+import runOutcomeSchema from "../../schemas/run-outcome.schema.json";
+
+export interface AgentFollowUp {
+  title: string;
+  description?: string;
+  priority?: number;
+}
+
+export interface AgentQuestion {
+  text: string;
+  options?: string[];  // Suggested answers
+}
+
+export interface AgentResult {
+  status: "success" | "failure" | "question";
+  summary: string;
+  requires_approval?: boolean;
+  changed_files?: string[];
+  follow_ups?: AgentFollowUp[];
+  error?: string;
+  question?: AgentQuestion;  // Set when status is question
+}
+
+export type AgentResultErrorCode =
+  | "MISSING_RESULT_BLOCK"
+  | "INVALID_RESULT_BLOCK";
+
+export interface AgentResultParse {
+  result?: AgentResult;
+  error_code?: AgentResultErrorCode;
+  error?: string;
+}
+
+// Matches ```json fenced blocks; the last one in the message is the result
+const JSON_BLOCK_PATTERN = /```json[^\S\n]*\n([\s\S]*?)\n?```/g;
+
+const ajv = new Ajv({ allErrors: true });
+addFormats(ajv);
+ajv.addSchema(runOutcomeSchema);
+
+const validateAgentResult = ajv.getSchema(
+  `${runOutcomeSchema.$id}#/definitions/agentResult`
+)!;
+
+/**
+ * Instructions appended to every agent prompt describing the result block
+ */
+export const RESULT_BLOCK_INSTRUCTIONS = `
+## Reporting Your Result
+End your final message with a fenced \`json\` block reporting the phase result:
+
+\`\`\`json
+{
+  "status": "success",
+  "summary": "One or two sentences describing what you did",
+  "requires_approval": false,
+  "changed_files": ["path/to/file.ts"],
+  "follow_ups": [{ "title": "Follow-up task", "priority": 2 }]
+}
+\`\`\`
+
+Use \`"status": "failure"\` with an \`"error"\` field if you could not complete the phase.
+Set \`"requires_approval": true\` if a human should review the result before the workflow continues.
+If you cannot continue without a human's decision, do not guess: use \`"status": "question"\` with
+\`"question": { "text": "Your question", "options": ["Option A", "Option B"] }\`. The phase is run
+again once the question is answered, with the answer included in your instructions.
+`.trim();
+
+/**
+ * Extract the last fenced JSON block from an agent message and validate it
+ */
+export function parseAgentResult(message: string | undefined): AgentResultParse {
+  const blocks = [...(message || "").matchAll(JSON_BLOCK_PATTERN)];
+  if (blocks.length === 0) {
+    return {
+      error_code: "MISSING_RESULT_BLOCK",
+      error: "Agent did not report a result block",
+    };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(blocks[blocks.length - 1][1]);
+  } catch (error) {
+    return {
+      error_code: "INVALID_RESULT_BLOCK",
+      error: `Result block is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  if (!validateAgentResult(data)) {
+    const details = (validateAgentResult.errors || [])
+      .map((e) => `${e.instancePath || "/"} ${e.message}`)
+      .join("; ");
+    return {
+      error_code: "INVALID_RESULT_BLOCK",
+      error: `Result block failed validation: ${details}`,
+    };
+  }
+
+  const result = data as AgentResult;
+  if (result.status === "question" && !result.question) {
+    return {
+      error_code: "INVALID_RESULT_BLOCK",
+      error: "Result block failed validation: status 'question' requires a question",
+    };
+  }
+
+  return { result };
+}
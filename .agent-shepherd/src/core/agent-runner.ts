@@ -0,0 +1,126 @@
+/**
+ * Agent Runner
+ * Common interface for the runtimes that execute agents
+ */
+
+import type { AgentConfig } from "./agent-registry.ts";
+import { getOpenCodeClient, type OpenCodeClient, type RunResult } from "./opencode.ts";
+import { RunTracker } from "./process-utils.ts";
+import { ShellRunner } from "./shell-runner.ts";
+import { MockRunner } from "./mock-runner.ts";
+
+export type AgentRuntime = "opencode" | "shell" | "mock";
+
+export interface AgentRunRequest {
+  run_id: string;
+  agent: AgentConfig;
+  directory?: string;        // Working directory, defaults to the current one
+  title: string;
+  message: string;           // Instructions for the agent
+  model?: string;            // Resolved model in format "provider/model"
+  variables?: { [key: string]: string };  // Extra context (issue_id, phase, ...)
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // eslint-disable-next-line no-unused-vars
+  onSpawn?: (pid: number) => void;
+  // eslint-disable-next-line no-unused-vars
+  onSession?: (sessionId: string) => void;
+  // eslint-disable-next-line no-unused-vars
+  onOutput?: (chunk: string) => void;
+}
+
+/**
+ * Backend that executes agent runs
+ */
+export interface AgentRunner {
+  readonly runtime: AgentRuntime;
+
+  /**
+   * Execute a run to completion
+   */
+  // eslint-disable-next-line no-unused-vars
+  run(request: AgentRunRequest): Promise<RunResult>;
+
+  /**
+   * Abort an in-flight run. Returns false if this runner is not running it.
+   */
+  // eslint-disable-next-line no-unused-vars
+  abort(runId: string): Promise<boolean>;
+
+  /**
+   * Stream the live output of an in-flight run
+   */
+  // eslint-disable-next-line no-unused-vars
+  stream(runId: string): AsyncIterable<string>;
+}
+
+/**
+ * Runs agents through OpenCode using the client's configured transport
+ */
+export class OpenCodeRunner implements AgentRunner {
+  readonly runtime = "opencode" as const;
+  private client: OpenCodeClient;
+  private tracker = new RunTracker();
+
+  constructor(client?: OpenCodeClient) {
+    this.client = client || getOpenCodeClient();
+  }
+
+  async run(request: AgentRunRequest): Promise<RunResult> {
+    const signal = this.tracker.start(request.run_id, request.signal);
+
+    try {
+      return await this.client.runAgent({
+        directory: request.directory,
+        title: request.title,
+        agent: request.agent.id,
+        model: request.model,
+        message: request.message,
+        timeoutMs: request.timeoutMs,
+        signal,
+        onSpawn: request.onSpawn,
+        onSession: request.onSession,
+        onOutput: (chunk) => {
+          this.tracker.emit(request.run_id, chunk);
+          request.onOutput?.(chunk);
+        },
+      });
+    } finally {
+      this.tracker.finish(request.run_id);
+    }
+  }
+
+  async abort(runId: string): Promise<boolean> {
+    return this.tracker.abort(runId);
+  }
+
+  stream(runId: string): AsyncIterable<string> {
+    return this.tracker.stream(runId);
+  }
+}
+
+/**
+ * Runner singletons, one per runtime
+ */
+const runners = new Map<AgentRuntime, AgentRunner>();
+
+export function getAgentRunner(runtime: AgentRuntime = "opencode"): AgentRunner {
+  let runner = runners.get(runtime);
+  if (!runner) {
+    switch (runtime) {
+      case "opencode":
+        runner = new OpenCodeRunner();
+        break;
+      case "shell":
+        runner = new ShellRunner();
+        break;
+      case "mock":
+        runner = new MockRunner();
+        break;
+      default:
+        throw new Error(`Unknown agent runtime: ${runtime}`);
+    }
+    runners.set(runtime, runner);
+  }
+  return runner;
+}
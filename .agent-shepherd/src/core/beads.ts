@@ -10,6 +10,7 @@ export interface BeadsIssue {
   status: "open" | "in_progress" | "blocked" | "closed";
   priority: number;
   issue_type: string;
+  labels?: string[];
   created_at: string;
   updated_at: string;
   dependency_count?: number;
@@ -0,0 +1,181 @@
+/**
+ * Config Reloader
+ * Watches the configuration files of a running daemon and swaps in changes that validate
+ */
+
+import { watch, type FSWatcher } from "fs";
+import { join } from "path";
+import { ConfigurationValidator } from "./config-validator.ts";
+import { loadConfigFile, type AgentShepherdConfig } from "./config.ts";
+import { getPolicyEngine, type PolicyEngine } from "./policy.ts";
+import { getAgentRegistry, type AgentRegistry } from "./agent-registry.ts";
+import { getLogger, type Logger } from "./logging.ts";
+import { getConfigDir } from "./path-utils.ts";
+
+export type ConfigFileName = "policies.yaml" | "agents.yaml" | "config.yaml";
+
+const WATCHED_FILES: ConfigFileName[] = ["policies.yaml", "agents.yaml", "config.yaml"];
+
+// Editors write a file in several steps; wait for them to settle
+const RELOAD_DEBOUNCE_MS = 200;
+
+/**
+ * Collaborators of the reloader, defaulting to the shared singletons
+ */
+export interface ConfigReloaderDependencies {
+  policyEngine?: PolicyEngine;
+  agentRegistry?: AgentRegistry;
+  logger?: Logger;
+}
+
+export interface ConfigReloadResult {
+  file: ConfigFileName;
+  applied: boolean;
+  errors: string[];
+}
+
+// eslint-disable-next-line no-unused-vars
+export type ConfigListener = (config: AgentShepherdConfig) => void;
+
+/**
+ * Reloads policies.yaml, agents.yaml and config.yaml when they change.
+ * A changed file is validated against its schema and loaded in full
+ * before anything is replaced; an invalid file leaves the running
+ * configuration untouched.
+ */
+export class ConfigReloader {
+  private configDir: string;
+  private policyEngine: PolicyEngine;
+  private agentRegistry: AgentRegistry;
+  private logger: Logger;
+  private listeners: ConfigListener[] = [];
+  private watcher: FSWatcher | null = null;
+  private pending = new Map<ConfigFileName, ReturnType<typeof setTimeout>>();
+
+  constructor(configDir?: string, deps: ConfigReloaderDependencies = {}) {
+    this.configDir = configDir || getConfigDir();
+    this.policyEngine = deps.policyEngine || getPolicyEngine();
+    this.agentRegistry = deps.agentRegistry || getAgentRegistry();
+    this.logger = deps.logger || getLogger();
+  }
+
+  /**
+   * Register a listener for reloaded config.yaml settings
+   */
+  onConfigChange(listener: ConfigListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Start watching the configuration directory
+   */
+  start(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    // Watch the directory rather than the files, since editors often
+    // replace a file instead of writing it in place
+    this.watcher = watch(this.configDir, (_event, filename) => {
+      const file = WATCHED_FILES.find((name) => name === filename);
+      if (file) {
+        this.schedule(file);
+      }
+    });
+    console.log(`Watching ${this.configDir} for configuration changes`);
+  }
+
+  /**
+   * Stop watching and drop pending reloads
+   */
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Validate a configuration file and swap it in if it is valid
+   */
+  async reload(file: ConfigFileName): Promise<ConfigReloadResult> {
+    const path = join(this.configDir, file);
+    let errors: string[] = [];
+
+    // A fresh validator, since Ajv refuses to compile a schema id twice
+    const validation = await new ConfigurationValidator().validateConfigFile(path);
+    if (!validation.valid) {
+      errors = validation.errors.map((error) =>
+        `${error.instancePath || error.schemaPath || file}: ${error.message}`
+      );
+    } else {
+      try {
+        this.apply(file, path);
+      } catch (error) {
+        errors = [error instanceof Error ? error.message : String(error)];
+      }
+    }
+
+    const applied = errors.length === 0;
+    const version = file === "policies.yaml" ? this.policyEngine.getVersion() : undefined;
+    if (applied) {
+      console.log(`Reloaded ${file}${version ? ` (policy version ${version})` : ""}`);
+    } else {
+      console.error(`Rejected changes to ${file}, keeping the running configuration:`);
+      errors.forEach((error) => console.error(`   • ${error}`));
+    }
+
+    // Reloads are not tied to a run
+    this.logger.logDecision({
+      run_id: "",
+      type: "config_reload",
+      decision: applied ? "applied" : "rejected",
+      reasoning: applied
+        ? `${file} changed and passed validation`
+        : `${file} changed but failed validation: ${errors[0]}`,
+      metadata: { file, path, errors: applied ? undefined : errors, policy_version: version },
+    });
+
+    return { file, applied, errors };
+  }
+
+  /**
+   * Load a validated file into the running daemon
+   */
+  private apply(file: ConfigFileName, path: string): void {
+    switch (file) {
+      case "policies.yaml":
+        this.policyEngine.loadPolicies(path);
+        break;
+
+      case "agents.yaml":
+        this.agentRegistry.loadAgents(path);
+        break;
+
+      case "config.yaml": {
+        const config = loadConfigFile(path);
+        this.agentRegistry.updateConfig(config);
+        this.listeners.forEach((listener) => listener(config));
+        break;
+      }
+    }
+  }
+
+  /**
+   * Debounce reloads of a file
+   */
+  private schedule(file: ConfigFileName): void {
+    clearTimeout(this.pending.get(file));
+    this.pending.set(
+      file,
+      setTimeout(() => {
+        this.pending.delete(file);
+        this.reload(file).catch((error) =>
+          console.error(`Failed to reload ${file}:`, error)
+        );
+      }, RELOAD_DEBOUNCE_MS)
+    );
+  }
+}
@@ -1,7 +1,7 @@
 import Ajv, { ErrorObject } from "ajv";
 import addFormats from "ajv-formats";
 import { readFileSync, existsSync } from "fs";
-import { join } from "path";
+import { basename, join } from "path";
 
 interface ValidationResult {
   valid: boolean;
@@ -9,6 +9,25 @@ interface ValidationResult {
   summary: string;
 }
 
+// Configuration files and the schemas they are validated against
+const CONFIG_FILES = [
+  {
+    config: 'config.yaml',
+    schema: 'schemas/config.schema.json',
+    description: 'Main configuration'
+  },
+  {
+    config: 'policies.yaml',
+    schema: 'schemas/policies.schema.json',
+    description: 'Policy definitions'
+  },
+  {
+    config: 'agents.yaml',
+    schema: 'schemas/agents.schema.json',
+    description: 'Agent registry'
+  }
+];
+
 export class ConfigurationValidator {
   private ajv: Ajv;
 
@@ -65,38 +84,13 @@ export class ConfigurationValidator {
    * Validate all configuration files
    */
   async validateAllConfigs(configDir?: string): Promise<ValidationResult[]> {
-    const { getConfigDir, findInstallDir } = await import('./path-utils');
+    const { getConfigDir } = await import('./path-utils');
     const baseDir = configDir || getConfigDir();
-    const installDir = findInstallDir();
     const results: ValidationResult[] = [];
 
-    // Define validation tasks
-    const validationTasks = [
-      {
-        config: 'config.yaml',
-        schema: 'schemas/config.schema.json',
-        description: 'Main configuration'
-      },
-      {
-        config: 'policies.yaml',
-        schema: 'schemas/policies.schema.json',
-        description: 'Policy definitions'
-      },
-      {
-        config: 'agents.yaml',
-        schema: 'schemas/agents.schema.json',
-        description: 'Agent registry'
-      }
-    ];
-
-    for (const task of validationTasks) {
+    for (const task of CONFIG_FILES) {
       const configPath = join(baseDir, task.config);
-      // Try to find schema in multiple locations (local first, then installation dir)
-      const localAgentShepherdDir = (await import('./path-utils')).findAgentShepherdDir();
-      let schemaPath = join(localAgentShepherdDir, task.schema);
-      if (!existsSync(schemaPath)) {
-        schemaPath = join(installDir, task.schema);
-      }
+      const schemaPath = await this.findSchemaPath(task.schema);
 
       if (!existsSync(configPath)) {
         results.push({
@@ -140,6 +134,43 @@ export class ConfigurationValidator {
     return results;
   }
 
+  /**
+   * Validate a single configuration file (config.yaml, policies.yaml or
+   * agents.yaml) against its schema
+   */
+  async validateConfigFile(configPath: string): Promise<ValidationResult> {
+    const task = CONFIG_FILES.find((file) => file.config === basename(configPath));
+    if (!task) {
+      throw new Error(`Unknown configuration file: ${configPath}`);
+    }
+
+    const schemaPath = await this.findSchemaPath(task.schema);
+    if (!existsSync(schemaPath)) {
+      return {
+        valid: false,
+        errors: [{
+          keyword: 'missing-schema',
+          instancePath: '',
+          schemaPath: '',
+          params: { file: task.schema },
+          message: `Schema file ${task.schema} not found`
+        }],
+        summary: `Schema not found: ${task.schema}`
+      };
+    }
+
+    return this.validateYAMLConfig(configPath, schemaPath);
+  }
+
+  /**
+   * Find a schema file (local first, then installation dir)
+   */
+  private async findSchemaPath(schema: string): Promise<string> {
+    const { findAgentShepherdDir, findInstallDir } = await import('./path-utils');
+    const localPath = join(findAgentShepherdDir(), schema);
+    return existsSync(localPath) ? localPath : join(findInstallDir(), schema);
+  }
+
   /**
    * Validate configuration at startup
    */
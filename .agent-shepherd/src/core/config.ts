@@ -14,6 +14,23 @@ export interface FallbackConfig {
   mappings?: Record<string, string>;
 }
 
+/**
+ * How the registry chooses among the agents that can run a phase:
+ * - priority: the highest-priority agent with free capacity
+ * - round_robin: each matching agent in turn
+ * - least_loaded: the agent with the fewest runs in flight
+ * - weighted_random: at random, weighted by priority
+ */
+export type AgentSelectionStrategy =
+  | "priority"
+  | "round_robin"
+  | "least_loaded"
+  | "weighted_random";
+
+export interface AgentSelectionConfig {
+  strategy: AgentSelectionStrategy;
+}
+
 export interface AgentShepherdConfig {
   version: string;
   worker?: {
@@ -25,8 +42,14 @@ export interface AgentShepherdConfig {
     stall_threshold_ms?: number;
     timeout_multiplier?: number;
   };
+  opencode?: {
+    transport?: "cli" | "server";
+    server_url?: string;
+    poll_interval_ms?: number;
+  };
   ui?: UIConfig;
   fallback?: FallbackConfig;
+  agent_selection?: AgentSelectionConfig;
 }
 
 /**
@@ -36,7 +59,13 @@ export function loadConfig(configDir?: string): AgentShepherdConfig {
   const configPath = configDir
     ? join(configDir, ".agent-shepherd", "config.yaml")
     : getConfigPath("config.yaml");
-  
+  return loadConfigFile(configPath);
+}
+
+/**
+ * Load configuration from a config.yaml path, filling in defaults
+ */
+export function loadConfigFile(configPath: string): AgentShepherdConfig {
   if (!existsSync(configPath)) {
     throw new Error(`Configuration file not found: ${configPath}`);
   }
@@ -59,6 +88,12 @@ export function loadConfig(configDir?: string): AgentShepherdConfig {
         timeout_multiplier: 1.0,
         ...config.monitor
       },
+      opencode: {
+        transport: "cli",
+        server_url: "http://127.0.0.1:4096",
+        poll_interval_ms: 1000,
+        ...config.opencode
+      },
       ui: {
         port: 3000,
         host: "localhost",
@@ -68,7 +103,11 @@ export function loadConfig(configDir?: string): AgentShepherdConfig {
         enabled: config.fallback.enabled ?? false,
         default_agent: config.fallback.default_agent,
         mappings: config.fallback.mappings
-      } : undefined
+      } : undefined,
+      agent_selection: {
+        strategy: "priority",
+        ...config.agent_selection
+      }
     };
   } catch (error) {
     throw new Error(
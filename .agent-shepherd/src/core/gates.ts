@@ -0,0 +1,92 @@
+/**
+ * Phase Quality Gates
+ * Runs shell verification commands that must pass before a phase can advance
+ */
+
+import { resolve } from "path";
+import { killProcessTree } from "./process-utils";
+
+export interface GateConfig {
+  name?: string;
+  command: string;
+  timeout_ms?: number;
+  cwd?: string;  // Relative to the worker's working directory
+}
+
+export interface GateResult {
+  name: string;
+  command: string;
+  passed: boolean;
+  exit_code: number | null;
+  timed_out: boolean;
+  duration_ms: number;
+  output: string;
+}
+
+const DEFAULT_GATE_TIMEOUT_MS = 600000; // 10 minutes
+
+// Only the tail of gate output is kept in run metadata
+const MAX_GATE_OUTPUT_CHARS = 4000;
+
+/**
+ * Run a single gate command through the shell
+ */
+export async function runGate(
+  gate: GateConfig,
+  baseDir: string
+): Promise<GateResult> {
+  const startTime = Date.now();
+  const proc = Bun.spawn(["sh", "-c", gate.command], {
+    cwd: gate.cwd ? resolve(baseDir, gate.cwd) : baseDir,
+    stdout: "pipe",
+    stderr: "pipe",
+    detached: true,  // Own process group so the whole command tree can be killed
+  });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    killProcessTree(proc.pid);
+  }, gate.timeout_ms || DEFAULT_GATE_TIMEOUT_MS);
+
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  clearTimeout(timer);
+
+  const output = [stdout, stderr].filter((s) => s.trim()).join("\n");
+
+  return {
+    name: gate.name || gate.command,
+    command: gate.command,
+    passed: !timedOut && exitCode === 0,
+    exit_code: timedOut ? null : exitCode,
+    timed_out: timedOut,
+    duration_ms: Date.now() - startTime,
+    output: output.slice(-MAX_GATE_OUTPUT_CHARS),
+  };
+}
+
+/**
+ * Run gates in order, stopping at the first failure
+ */
+export async function runGates(
+  gates: GateConfig[],
+  baseDir: string
+): Promise<GateResult[]> {
+  const results: GateResult[] = [];
+
+  for (const gate of gates) {
+    console.log(`Running gate: ${gate.name || gate.command}`);
+    const result = await runGate(gate, baseDir);
+    results.push(result);
+
+    if (!result.passed) {
+      break;
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,238 @@
+/**
+ * Phase Handoff
+ * Builds the digest of earlier phases that is passed into the next phase's instructions
+ */
+
+import type { GateResult } from "./gates.ts";
+import type { RunRecord } from "./logging.ts";
+
+export type HandoffSection = "summary" | "changed_files" | "gates" | "notes";
+
+export interface HandoffConfig {
+  enabled?: boolean;
+  max_chars?: number;           // Size budget for the whole digest
+  include?: HandoffSection[];   // Parts of each earlier phase to include
+}
+
+export const DEFAULT_HANDOFF_CONFIG: Required<HandoffConfig> = {
+  enabled: true,
+  max_chars: 4000,
+  include: ["summary", "changed_files", "gates", "notes"],
+};
+
+// Blocks that would be cut shorter than this are dropped instead
+const MIN_BLOCK_CHARS = 200;
+
+const TRUNCATED = "\n…[truncated]";
+
+export interface HandoffContext {
+  phase: string;             // Phase being started
+  phase_started_at?: number; // Start of the current phase's attempt window
+  config: Required<HandoffConfig>;
+  rejection?: ReviewRejection;  // Reviewer feedback the phase has to address
+  answers?: HumanAnswer[];      // Questions the phase's agent asked, with their answers
+}
+
+export interface ReviewRejection {
+  phase: string;      // Phase whose result was rejected
+  reviewer?: string;
+  note?: string;
+}
+
+export interface HumanAnswer {
+  question: string;
+  answer: string;
+  answered_by?: string;
+}
+
+/**
+ * Build the handoff digest from the earlier runs of an issue's workflow.
+ * Each earlier phase is represented by its latest completed run; the most
+ * recent phases are kept first when the budget runs out. On a retry the
+ * previous attempt's failure is included ahead of everything else.
+ * A reviewer's rejection and the answers to the agent's questions are
+ * always passed on, even with the digest disabled.
+ */
+export function buildHandoff(runs: RunRecord[], context: HandoffContext): string {
+  const { config } = context;
+  const feedback = [
+    context.rejection ? formatRejection(context.rejection) : "",
+    context.answers?.length ? formatAnswers(context.answers) : "",
+  ]
+    .filter((part) => part)
+    .join("\n\n");
+  if (!config.enabled) {
+    return feedback;
+  }
+
+  const sorted = [...runs].sort((a, b) => a.created_at - b.created_at);
+  let remaining = config.max_chars;
+
+  // The previous attempt's failure matters most on a retry
+  const previousAttempt = sorted
+    .filter(
+      (run) =>
+        run.phase === context.phase &&
+        run.created_at >= (context.phase_started_at || 0)
+    )
+    .pop();
+  let attemptBlock = "";
+  if (previousAttempt?.status === "failed") {
+    attemptBlock = fitBlock(formatFailedAttempt(previousAttempt), remaining);
+    remaining -= attemptBlock.length;
+  }
+
+  // Latest completed run of every other phase, most recent first
+  const latestByPhase = new Map<string, RunRecord>();
+  for (const run of sorted) {
+    if (run.phase !== context.phase && run.status === "completed") {
+      latestByPhase.delete(run.phase);
+      latestByPhase.set(run.phase, run);
+    }
+  }
+  const phaseRuns = Array.from(latestByPhase.values()).reverse();
+
+  const phaseBlocks: string[] = [];
+  let omitted = 0;
+  for (const run of phaseRuns) {
+    const phaseAttempts = sorted.filter((r) => r.phase === run.phase);
+    const block = fitBlock(formatPhase(run, phaseAttempts, config.include), remaining);
+    if (!block) {
+      omitted = phaseRuns.length - phaseBlocks.length;
+      break;
+    }
+    phaseBlocks.unshift(block);
+    remaining -= block.length;
+  }
+
+  const parts: string[] = [];
+  if (feedback) {
+    parts.push(feedback);
+  }
+  if (phaseBlocks.length > 0) {
+    parts.push(`## Previous Phases\n\n${phaseBlocks.join("\n\n")}`);
+  }
+  if (omitted > 0) {
+    parts.push(`_${omitted} earlier phase(s) omitted to fit the handoff budget._`);
+  }
+  if (attemptBlock) {
+    parts.push(`## Previous Attempt\n\n${attemptBlock}`);
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * Describe a completed phase
+ */
+function formatPhase(
+  run: RunRecord,
+  attempts: RunRecord[],
+  include: HandoffSection[]
+): string {
+  const lines = [`### ${run.phase} (${run.agent_id})`];
+  const outcome = run.outcome;
+
+  if (include.includes("summary") && outcome?.message) {
+    lines.push(outcome.message.trim());
+  }
+
+  if (include.includes("changed_files") && outcome?.artifacts?.length) {
+    lines.push("Changed files:", ...outcome.artifacts.map((file) => `- ${file}`));
+  }
+
+  if (include.includes("gates")) {
+    const failures = attempts.flatMap((attempt) =>
+      getGateResults(attempt).filter((gate) => !gate.passed)
+    );
+    if (failures.length > 0) {
+      lines.push(
+        "Gate failures during this phase:",
+        ...failures.map((gate) => `- ${gate.name}: ${describeGate(gate)}`)
+      );
+    }
+  }
+
+  if (include.includes("notes") && outcome?.follow_ups?.length) {
+    lines.push(
+      "Notes:",
+      ...outcome.follow_ups.map((note) =>
+        note.description ? `- ${note.title}: ${note.description}` : `- ${note.title}`
+      )
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Describe why the previous attempt of the current phase failed
+ */
+function formatFailedAttempt(run: RunRecord): string {
+  const outcome = run.outcome;
+  const code = outcome?.error_code ? ` (${outcome.error_code})` : "";
+  const lines = [
+    `The previous attempt at this phase failed${code}: ${outcome?.error || "unknown error"}`,
+    "Address this failure before reporting success.",
+  ];
+
+  for (const gate of getGateResults(run).filter((gate) => !gate.passed)) {
+    lines.push(`Output of gate '${gate.name}':`, "```", gate.output.trim(), "```");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Describe a reviewer's rejection of an earlier result
+ */
+function formatRejection(rejection: ReviewRejection): string {
+  const reviewer = rejection.reviewer ? ` by ${rejection.reviewer}` : "";
+  return [
+    "## Review Feedback",
+    "",
+    `The result of phase '${rejection.phase}' was rejected${reviewer}:`,
+    rejection.note?.trim() || "No reason given.",
+    "Address this feedback before reporting success.",
+  ].join("\n");
+}
+
+/**
+ * List the questions asked in earlier attempts with their answers
+ */
+function formatAnswers(answers: HumanAnswer[]): string {
+  const lines = [
+    "## Questions and Answers",
+    "",
+    "Earlier attempts of this phase asked a human; follow these answers:",
+  ];
+  for (const entry of answers) {
+    const by = entry.answered_by ? ` (${entry.answered_by})` : "";
+    lines.push("", `Q: ${entry.question.trim()}`, `A${by}: ${entry.answer.trim()}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Gate results recorded in a run's metadata
+ */
+function getGateResults(run: RunRecord): GateResult[] {
+  const gates = run.metadata?.gates;
+  return Array.isArray(gates) ? (gates as GateResult[]) : [];
+}
+
+function describeGate(gate: GateResult): string {
+  return gate.timed_out ? "timed out" : `exit code ${gate.exit_code}`;
+}
+
+/**
+ * Cut a block down to the remaining budget, or drop it if too little is left
+ */
+function fitBlock(block: string, remaining: number): string {
+  if (block.length <= remaining) {
+    return block;
+  }
+  if (remaining < MIN_BLOCK_CHARS) {
+    return "";
+  }
+  return block.slice(0, remaining - TRUNCATED.length) + TRUNCATED;
+}
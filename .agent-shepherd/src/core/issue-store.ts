@@ -0,0 +1,116 @@
+/**
+ * Issue Store
+ * Abstracts the issue tracker the worker and monitor operate on
+ */
+
+import {
+  getIssue,
+  getReadyIssues,
+  updateIssue,
+  type BeadsIssue,
+  type BeadsUpdateOptions,
+} from "./beads.ts";
+
+export interface IssueStore {
+  /**
+   * Get open issues with no blocking dependencies
+   */
+  getReadyIssues(): Promise<BeadsIssue[]>;
+
+  /**
+   * Get issue details by ID
+   */
+  // eslint-disable-next-line no-unused-vars
+  getIssue(issueId: string): Promise<BeadsIssue | null>;
+
+  /**
+   * Update issue status and metadata
+   */
+  // eslint-disable-next-line no-unused-vars
+  updateIssue(issueId: string, options: BeadsUpdateOptions): Promise<void>;
+}
+
+/**
+ * Issue store backed by the Beads CLI
+ */
+export class BeadsIssueStore implements IssueStore {
+  getReadyIssues(): Promise<BeadsIssue[]> {
+    return getReadyIssues();
+  }
+
+  getIssue(issueId: string): Promise<BeadsIssue | null> {
+    return getIssue(issueId);
+  }
+
+  updateIssue(issueId: string, options: BeadsUpdateOptions): Promise<void> {
+    return updateIssue(issueId, options);
+  }
+}
+
+/**
+ * In-memory issue store for tests and simulations
+ */
+export class MemoryIssueStore implements IssueStore {
+  private issues = new Map<string, BeadsIssue>();
+
+  constructor(issues: Array<Partial<BeadsIssue> & { id: string }> = []) {
+    for (const issue of issues) {
+      this.addIssue(issue);
+    }
+  }
+
+  /**
+   * Add an issue, filling unspecified fields with defaults
+   */
+  addIssue(issue: Partial<BeadsIssue> & { id: string }): BeadsIssue {
+    const now = new Date().toISOString();
+    const full: BeadsIssue = {
+      title: issue.id,
+      description: "",
+      status: "open",
+      priority: 2,
+      issue_type: "task",
+      created_at: now,
+      updated_at: now,
+      ...issue,
+    };
+    this.issues.set(full.id, full);
+    return full;
+  }
+
+  async getReadyIssues(): Promise<BeadsIssue[]> {
+    return Array.from(this.issues.values()).filter(
+      (issue) => issue.status === "open" && !issue.dependency_count
+    );
+  }
+
+  async getIssue(issueId: string): Promise<BeadsIssue | null> {
+    return this.issues.get(issueId) || null;
+  }
+
+  async updateIssue(issueId: string, options: BeadsUpdateOptions): Promise<void> {
+    const issue = this.issues.get(issueId);
+    if (!issue) {
+      throw new Error(`Issue ${issueId} not found`);
+    }
+
+    this.issues.set(issueId, {
+      ...issue,
+      ...(options.status && { status: options.status }),
+      ...(options.priority !== undefined && { priority: options.priority }),
+      updated_at: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Create a singleton Issue Store instance
+ */
+let defaultIssueStore: IssueStore | null = null;
+
+export function getIssueStore(): IssueStore {
+  if (!defaultIssueStore) {
+    defaultIssueStore = new BeadsIssueStore();
+  }
+  return defaultIssueStore;
+}
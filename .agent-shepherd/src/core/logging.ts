@@ -6,6 +6,8 @@
 import { Database } from "bun:sqlite";
 import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
 import { join } from "path";
+import type { AgentFollowUp, AgentQuestion } from "./agent-result.ts";
+import type { PolicyConfig } from "./policy.ts";
 
 export interface RunRecord {
   id: string;
@@ -13,11 +15,15 @@ export interface RunRecord {
   session_id: string;
   agent_id: string;
   policy_name: string;
+  policy_hash?: string;  // Content hash of the policy version the run used
   phase: string;
   status: "pending" | "running" | "completed" | "failed" | "blocked";
   created_at: number;
   updated_at: number;
+  started_at?: number;  // When the agent process spawned
   completed_at?: number;
+  pid?: number;         // Agent process ID while running
+  host?: string;        // Host the agent process runs on
   outcome?: RunOutcome;
   metadata?: {
     [key: string]: unknown;
@@ -30,6 +36,9 @@ export interface RunOutcome {
   artifacts?: string[];
   requires_approval?: boolean;
   error?: string;
+  error_code?: string;  // Failure category, e.g. MISSING_RESULT_BLOCK
+  follow_ups?: AgentFollowUp[];
+  question?: AgentQuestion;  // The agent stopped to ask a human
   metrics?: {
     duration_ms?: number;
     tokens_used?: number;
@@ -41,7 +50,14 @@ export interface DecisionRecord {
   id: string;
   run_id: string;
   timestamp: number;
-  type: "agent_selection" | "phase_transition" | "retry" | "hitl";
+  type:
+    | "agent_selection"
+    | "policy_selection"
+    | "phase_transition"
+    | "retry"
+    | "hitl"
+    | "config_reload"
+    | "policy_migration";
   decision: string;
   reasoning?: string;
   metadata?: {
@@ -49,6 +65,70 @@ export interface DecisionRecord {
   };
 }
 
+export interface WorkflowState {
+  issue_id: string;
+  policy_name: string;
+  policy_hash?: string;       // Policy version the workflow runs on
+  current_phase: string;
+  attempt_count: number;
+  last_run_id?: string;
+  status: "active" | "blocked" | "completed";
+  phase_started_at?: number;  // Start of the current phase's attempt window
+  next_attempt_at?: number;   // Earliest time a retry may run (backoff)
+  loop_counts?: {             // Backward jumps taken from each phase
+    [phase: string]: number;
+  };
+  created_at: number;
+  updated_at: number;
+}
+
+export interface PolicyVersion {
+  hash: string;
+  policy_name: string;
+  config: PolicyConfig;  // The resolved policy
+  created_at: number;    // First time a run used this version
+}
+
+export interface ApprovalRecord {
+  id: string;
+  issue_id: string;
+  run_id: string;           // Run whose result awaits approval
+  policy_name: string;
+  policy_hash?: string;
+  phase: string;
+  agent_id: string;
+  success: boolean;         // Whether the phase succeeded; approval only lifts the gate
+  summary?: string;         // The agent's summary of its result
+  approvers?: string[];     // Who may decide (anyone when unset)
+  status: "pending" | "approved" | "rejected" | "withdrawn";  // Withdrawn: unblocked without a decision
+  decided_by?: string;
+  note?: string;            // Reviewer's note; the reason for a rejection
+  created_at: number;
+  decided_at?: number;
+}
+
+export interface QuestionRecord {
+  id: string;
+  issue_id: string;
+  run_id: string;           // Run that asked the question
+  policy_name: string;
+  phase: string;
+  agent_id: string;
+  question: string;
+  options?: string[];       // Answers the agent suggested
+  status: "pending" | "answered" | "withdrawn";  // Withdrawn: unblocked without an answer
+  answer?: string;
+  answered_by?: string;
+  created_at: number;
+  answered_at?: number;
+}
+
+export interface RunHeartbeat {
+  run_id: string;
+  pid?: number;             // Agent process, so supervisors can kill it
+  last_output_at: number;   // Last time the agent produced output
+}
+
 export interface RunQuery {
   issue_id?: string;
   agent_id?: string;
@@ -65,6 +145,10 @@ export class Logger {
   private db: Database;
   private jsonlPath: string;
   private decisionsPath: string;
+  private workflowsPath: string;
+  private policyVersionsPath: string;
+  private approvalsPath: string;
+  private questionsPath: string;
 
   constructor(dataDir?: string) {
     const dir = dataDir || join(process.cwd(), ".agent-shepherd");
@@ -76,6 +160,10 @@ export class Logger {
 
     this.jsonlPath = join(dir, "runs.jsonl");
     this.decisionsPath = join(dir, "decisions.jsonl");
+    this.workflowsPath = join(dir, "workflows.jsonl");
+    this.policyVersionsPath = join(dir, "policy_versions.jsonl");
+    this.approvalsPath = join(dir, "approvals.jsonl");
+    this.questionsPath = join(dir, "questions.jsonl");
     const dbPath = join(dir, "runs.db");
 
     // Initialize SQLite database
@@ -135,29 +223,140 @@ export class Logger {
     this.db.run(`
       CREATE INDEX IF NOT EXISTS idx_decisions_run_id ON decisions(run_id)
     `);
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS workflows (
+        issue_id TEXT PRIMARY KEY,
+        policy_name TEXT NOT NULL,
+        current_phase TEXT NOT NULL,
+        attempt_count INTEGER NOT NULL,
+        last_run_id TEXT,
+        status TEXT NOT NULL,
+        phase_started_at INTEGER,
+        next_attempt_at INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS policy_versions (
+        hash TEXT PRIMARY KEY,
+        policy_name TEXT NOT NULL,
+        config TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS approvals (
+        id TEXT PRIMARY KEY,
+        issue_id TEXT NOT NULL,
+        run_id TEXT NOT NULL,
+        policy_name TEXT NOT NULL,
+        policy_hash TEXT,
+        phase TEXT NOT NULL,
+        agent_id TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        summary TEXT,
+        approvers TEXT,
+        status TEXT NOT NULL,
+        decided_by TEXT,
+        note TEXT,
+        created_at INTEGER NOT NULL,
+        decided_at INTEGER
+      )
+    `);
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_approvals_issue_id ON approvals(issue_id)
+    `);
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS questions (
+        id TEXT PRIMARY KEY,
+        issue_id TEXT NOT NULL,
+        run_id TEXT NOT NULL,
+        policy_name TEXT NOT NULL,
+        phase TEXT NOT NULL,
+        agent_id TEXT NOT NULL,
+        question TEXT NOT NULL,
+        options TEXT,
+        status TEXT NOT NULL,
+        answer TEXT,
+        answered_by TEXT,
+        created_at INTEGER NOT NULL,
+        answered_at INTEGER
+      )
+    `);
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_questions_issue_id ON questions(issue_id)
+    `);
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_questions_run_id ON questions(run_id)
+    `);
+
+    // Heartbeats are live process state, so they are cached in SQLite only
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS heartbeats (
+        run_id TEXT PRIMARY KEY,
+        pid INTEGER,
+        last_output_at INTEGER NOT NULL
+      )
+    `);
+
+    this.ensureColumns("runs", {
+      started_at: "INTEGER",
+      pid: "INTEGER",
+      host: "TEXT",
+      policy_hash: "TEXT",
+    });
+
+    this.ensureColumns("workflows", {
+      phase_started_at: "INTEGER",
+      next_attempt_at: "INTEGER",
+      loop_counts: "TEXT",
+      policy_hash: "TEXT",
+    });
   }
 
   /**
-   * Sync JSONL records into SQLite
+   * Add columns missing from a cache table created by an older version
    */
-  private syncFromJSONL(): void {
-    // Check if JSONL file exists
-    if (!existsSync(this.jsonlPath)) {
-      return;
+  private ensureColumns(table: string, columns: Record<string, string>): void {
+    const existing = new Set(
+      (this.db.prepare(`PRAGMA table_info(${table})`).all() as any[]).map(
+        (column) => column.name
+      )
+    );
+
+    for (const [name, type] of Object.entries(columns)) {
+      if (!existing.has(name)) {
+        this.db.run(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+      }
     }
+  }
 
-    // Read JSONL and insert into SQLite
-    const content = readFileSync(this.jsonlPath, "utf-8");
-    const lines = content.trim().split("\n");
+  /**
+   * Sync JSONL records into SQLite
+   */
+  private syncFromJSONL(): void {
+    // Read runs JSONL (if it exists) and insert into SQLite
+    if (existsSync(this.jsonlPath)) {
+      const content = readFileSync(this.jsonlPath, "utf-8");
+      const lines = content.trim().split("\n");
 
-    for (const line of lines) {
-      if (!line.trim()) continue;
+      for (const line of lines) {
+        if (!line.trim()) continue;
 
-      try {
-        const record = JSON.parse(line) as RunRecord;
-        this.upsertToSQLite(record);
-      } catch (error) {
-        console.error("Failed to parse JSONL line:", error);
+        try {
+          const record = JSON.parse(line) as RunRecord;
+          this.upsertToSQLite(record);
+        } catch (error) {
+          console.error("Failed to parse JSONL line:", error);
+        }
       }
     }
 
@@ -177,6 +376,74 @@ export class Logger {
         }
       }
     }
+
+    // Sync workflow states if file exists (later lines win)
+    if (existsSync(this.workflowsPath)) {
+      const workflowsContent = readFileSync(this.workflowsPath, "utf-8");
+      const workflowLines = workflowsContent.trim().split("\n");
+
+      for (const line of workflowLines) {
+        if (!line.trim()) continue;
+
+        try {
+          const state = JSON.parse(line) as WorkflowState;
+          this.upsertWorkflowToSQLite(state);
+        } catch (error) {
+          console.error("Failed to parse workflow JSONL line:", error);
+        }
+      }
+    }
+
+    // Sync policy versions if file exists
+    if (existsSync(this.policyVersionsPath)) {
+      const versionsContent = readFileSync(this.policyVersionsPath, "utf-8");
+      const versionLines = versionsContent.trim().split("\n");
+
+      for (const line of versionLines) {
+        if (!line.trim()) continue;
+
+        try {
+          const version = JSON.parse(line) as PolicyVersion;
+          this.upsertPolicyVersionToSQLite(version);
+        } catch (error) {
+          console.error("Failed to parse policy version JSONL line:", error);
+        }
+      }
+    }
+
+    // Sync approvals if file exists (later lines win)
+    if (existsSync(this.approvalsPath)) {
+      const approvalsContent = readFileSync(this.approvalsPath, "utf-8");
+      const approvalLines = approvalsContent.trim().split("\n");
+
+      for (const line of approvalLines) {
+        if (!line.trim()) continue;
+
+        try {
+          const approval = JSON.parse(line) as ApprovalRecord;
+          this.upsertApprovalToSQLite(approval);
+        } catch (error) {
+          console.error("Failed to parse approval JSONL line:", error);
+        }
+      }
+    }
+
+    // Sync questions if file exists (later lines win)
+    if (existsSync(this.questionsPath)) {
+      const questionsContent = readFileSync(this.questionsPath, "utf-8");
+      const questionLines = questionsContent.trim().split("\n");
+
+      for (const line of questionLines) {
+        if (!line.trim()) continue;
+
+        try {
+          const question = JSON.parse(line) as QuestionRecord;
+          this.upsertQuestionToSQLite(question);
+        } catch (error) {
+          console.error("Failed to parse question JSONL line:", error);
+        }
+      }
+    }
   }
 
   /**
@@ -186,8 +453,9 @@ export class Logger {
     const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO runs (
         id, issue_id, session_id, agent_id, policy_name, phase,
-        status, created_at, updated_at, completed_at, outcome, metadata
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        status, created_at, updated_at, started_at, completed_at,
+        pid, host, outcome, metadata, policy_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -200,9 +468,13 @@ export class Logger {
       record.status,
       record.created_at,
       record.updated_at,
+      record.started_at || null,
       record.completed_at || null,
+      record.pid || null,
+      record.host || null,
       record.outcome ? JSON.stringify(record.outcome) : null,
-      record.metadata ? JSON.stringify(record.metadata) : null
+      record.metadata ? JSON.stringify(record.metadata) : null,
+      record.policy_hash || null
     );
   }
 
@@ -227,6 +499,52 @@ export class Logger {
     );
   }
 
+  /**
+   * Upsert workflow state to SQLite
+   */
+  private upsertWorkflowToSQLite(state: WorkflowState): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO workflows (
+        issue_id, policy_name, current_phase, attempt_count,
+        last_run_id, status, phase_started_at, next_attempt_at,
+        loop_counts, created_at, updated_at, policy_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      state.issue_id,
+      state.policy_name,
+      state.current_phase,
+      state.attempt_count,
+      state.last_run_id || null,
+      state.status,
+      state.phase_started_at || null,
+      state.next_attempt_at || null,
+      state.loop_counts ? JSON.stringify(state.loop_counts) : null,
+      state.created_at,
+      state.updated_at,
+      state.policy_hash || null
+    );
+  }
+
+  /**
+   * Upsert policy version to SQLite
+   */
+  private upsertPolicyVersionToSQLite(version: PolicyVersion): void {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO policy_versions (
+        hash, policy_name, config, created_at
+      ) VALUES (?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      version.hash,
+      version.policy_name,
+      JSON.stringify(version.config),
+      version.created_at
+    );
+  }
+
   /**
    * Create a new run record
    */
@@ -366,6 +684,326 @@ export class Logger {
     return rows.map((row) => this.rowToDecisionRecord(row));
   }
 
+  /**
+   * Get the decisions of one type made for an issue
+   */
+  getIssueDecisions(issueId: string, type: DecisionRecord["type"]): DecisionRecord[] {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM decisions WHERE type = ? AND json_extract(metadata, '$.issue_id') = ? ORDER BY timestamp ASC"
+      )
+      .all(type, issueId) as any[];
+
+    return rows.map((row) => this.rowToDecisionRecord(row));
+  }
+
+  /**
+   * Get the persisted workflow state for an issue
+   */
+  getWorkflowState(issueId: string): WorkflowState | null {
+    const stmt = this.db.prepare("SELECT * FROM workflows WHERE issue_id = ?");
+    const row = stmt.get(issueId) as any;
+
+    if (!row) {
+      return null;
+    }
+
+    return this.rowToWorkflowState(row);
+  }
+
+  /**
+   * Create or update the workflow state for an issue.
+   * A state without created_at continues the issue's existing workflow.
+   */
+  saveWorkflowState(
+    state: Omit<WorkflowState, "created_at" | "updated_at"> & { created_at?: number }
+  ): WorkflowState {
+    const existing = this.getWorkflowState(state.issue_id);
+    const now = Date.now();
+    const fullState: WorkflowState = {
+      ...state,
+      created_at: state.created_at ?? existing?.created_at ?? now,
+      updated_at: now,
+    };
+
+    // Append to JSONL
+    appendFileSync(this.workflowsPath, JSON.stringify(fullState) + "\n");
+
+    // Update SQLite cache
+    this.upsertWorkflowToSQLite(fullState);
+
+    return fullState;
+  }
+
+  /**
+   * Record that a run's result awaits human approval
+   */
+  createApproval(approval: Omit<ApprovalRecord, "id" | "status" | "created_at">): ApprovalRecord {
+    const fullApproval: ApprovalRecord = {
+      ...approval,
+      id: `approval-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      status: "pending",
+      created_at: Date.now(),
+    };
+
+    // Append to JSONL
+    appendFileSync(this.approvalsPath, JSON.stringify(fullApproval) + "\n");
+
+    // Update SQLite cache
+    this.upsertApprovalToSQLite(fullApproval);
+
+    return fullApproval;
+  }
+
+  /**
+   * Update an approval, e.g. with a reviewer's decision
+   */
+  updateApproval(
+    id: string,
+    updates: Partial<Omit<ApprovalRecord, "id" | "created_at">>
+  ): ApprovalRecord | null {
+    const row = this.db.prepare("SELECT * FROM approvals WHERE id = ?").get(id) as any;
+    if (!row) {
+      return null;
+    }
+
+    const updated: ApprovalRecord = { ...this.rowToApprovalRecord(row), ...updates };
+
+    // Append to JSONL
+    appendFileSync(this.approvalsPath, JSON.stringify(updated) + "\n");
+
+    // Update SQLite cache
+    this.upsertApprovalToSQLite(updated);
+
+    return updated;
+  }
+
+  /**
+   * List approvals, oldest first, optionally only those of one issue or status
+   */
+  listApprovals(query: { issue_id?: string; status?: ApprovalRecord["status"] } = {}): ApprovalRecord[] {
+    let sql = "SELECT * FROM approvals WHERE 1=1";
+    const params: any[] = [];
+
+    if (query.issue_id) {
+      sql += " AND issue_id = ?";
+      params.push(query.issue_id);
+    }
+
+    if (query.status) {
+      sql += " AND status = ?";
+      params.push(query.status);
+    }
+
+    sql += " ORDER BY created_at ASC";
+
+    const rows = this.db.prepare(sql).all(...params) as any[];
+    return rows.map((row) => this.rowToApprovalRecord(row));
+  }
+
+  /**
+   * Get the approval an issue is waiting for, if any
+   */
+  getPendingApproval(issueId: string): ApprovalRecord | null {
+    return this.listApprovals({ issue_id: issueId, status: "pending" }).pop() || null;
+  }
+
+  /**
+   * Record a question an agent asked a human. A run asks at most one
+   * question, so recording it again returns the existing record.
+   */
+  createQuestion(question: Omit<QuestionRecord, "id" | "status" | "created_at">): QuestionRecord {
+    const row = this.db
+      .prepare("SELECT * FROM questions WHERE run_id = ?")
+      .get(question.run_id) as any;
+    if (row) {
+      return this.rowToQuestionRecord(row);
+    }
+
+    const fullQuestion: QuestionRecord = {
+      ...question,
+      id: `question-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      status: "pending",
+      created_at: Date.now(),
+    };
+
+    // Append to JSONL
+    appendFileSync(this.questionsPath, JSON.stringify(fullQuestion) + "\n");
+
+    // Update SQLite cache
+    this.upsertQuestionToSQLite(fullQuestion);
+
+    return fullQuestion;
+  }
+
+  /**
+   * Update a question, e.g. with a human's answer
+   */
+  updateQuestion(
+    id: string,
+    updates: Partial<Omit<QuestionRecord, "id" | "created_at">>
+  ): QuestionRecord | null {
+    const row = this.db.prepare("SELECT * FROM questions WHERE id = ?").get(id) as any;
+    if (!row) {
+      return null;
+    }
+
+    const updated: QuestionRecord = { ...this.rowToQuestionRecord(row), ...updates };
+
+    // Append to JSONL
+    appendFileSync(this.questionsPath, JSON.stringify(updated) + "\n");
+
+    // Update SQLite cache
+    this.upsertQuestionToSQLite(updated);
+
+    return updated;
+  }
+
+  /**
+   * List questions, oldest first, optionally only those of one issue or status
+   */
+  listQuestions(query: { issue_id?: string; status?: QuestionRecord["status"] } = {}): QuestionRecord[] {
+    let sql = "SELECT * FROM questions WHERE 1=1";
+    const params: any[] = [];
+
+    if (query.issue_id) {
+      sql += " AND issue_id = ?";
+      params.push(query.issue_id);
+    }
+
+    if (query.status) {
+      sql += " AND status = ?";
+      params.push(query.status);
+    }
+
+    sql += " ORDER BY created_at ASC";
+
+    const rows = this.db.prepare(sql).all(...params) as any[];
+    return rows.map((row) => this.rowToQuestionRecord(row));
+  }
+
+  /**
+   * Blocked runs whose outcome asked a question that has no record yet
+   */
+  listUnrecordedQuestionRuns(): RunRecord[] {
+    const rows = this.db
+      .prepare(
+        `SELECT runs.* FROM runs
+         LEFT JOIN questions ON questions.run_id = runs.id
+         WHERE runs.status = 'blocked'
+           AND json_extract(runs.outcome, '$.question') IS NOT NULL
+           AND questions.id IS NULL
+         ORDER BY runs.created_at ASC`
+      )
+      .all() as any[];
+
+    return rows.map((row) => this.rowToRunRecord(row));
+  }
+
+  /**
+   * Get the question an issue is waiting on, if any
+   */
+  getPendingQuestion(issueId: string): QuestionRecord | null {
+    return this.listQuestions({ issue_id: issueId, status: "pending" }).pop() || null;
+  }
+
+  /**
+   * List workflow states, optionally only those with the given statuses
+   */
+  listWorkflowStates(statuses?: WorkflowState["status"][]): WorkflowState[] {
+    const rows = this.db
+      .prepare("SELECT * FROM workflows ORDER BY created_at ASC")
+      .all() as any[];
+
+    return rows
+      .map((row) => this.rowToWorkflowState(row))
+      .filter((state) => !statuses || statuses.includes(state.status));
+  }
+
+  /**
+   * Store a version of a policy, so workflows started on it can finish on
+   * it after the policy changes. Versions are immutable; storing a known
+   * hash again does nothing.
+   */
+  savePolicyVersion(hash: string, policyName: string, config: PolicyConfig): void {
+    if (this.getPolicyVersion(hash)) {
+      return;
+    }
+
+    const version: PolicyVersion = {
+      hash,
+      policy_name: policyName,
+      config,
+      created_at: Date.now(),
+    };
+
+    // Append to JSONL
+    appendFileSync(this.policyVersionsPath, JSON.stringify(version) + "\n");
+
+    // Update SQLite cache
+    this.upsertPolicyVersionToSQLite(version);
+  }
+
+  /**
+   * Get a stored policy version by its content hash
+   */
+  getPolicyVersion(hash: string): PolicyVersion | null {
+    const row = this.db
+      .prepare("SELECT * FROM policy_versions WHERE hash = ?")
+      .get(hash) as any;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      hash: row.hash,
+      policy_name: row.policy_name,
+      config: JSON.parse(row.config),
+      created_at: row.created_at,
+    };
+  }
+
+  /**
+   * Record that an in-flight run is alive
+   */
+  recordHeartbeat(heartbeat: RunHeartbeat): void {
+    this.db
+      .prepare(
+        `INSERT INTO heartbeats (run_id, pid, last_output_at) VALUES (?, ?, ?)
+         ON CONFLICT(run_id) DO UPDATE SET
+           pid = COALESCE(excluded.pid, pid),
+           last_output_at = excluded.last_output_at`
+      )
+      .run(heartbeat.run_id, heartbeat.pid ?? null, heartbeat.last_output_at);
+  }
+
+  /**
+   * Get the latest heartbeat of an in-flight run
+   */
+  getHeartbeat(runId: string): RunHeartbeat | null {
+    const row = this.db
+      .prepare("SELECT * FROM heartbeats WHERE run_id = ?")
+      .get(runId) as any;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      run_id: row.run_id,
+      pid: row.pid ?? undefined,
+      last_output_at: row.last_output_at,
+    };
+  }
+
+  /**
+   * Remove the heartbeat of a run that is no longer in flight
+   */
+  clearHeartbeat(runId: string): void {
+    this.db.prepare("DELETE FROM heartbeats WHERE run_id = ?").run(runId);
+  }
+
   /**
    * Convert SQLite row to RunRecord
    */
@@ -376,11 +1014,15 @@ export class Logger {
       session_id: row.session_id,
       agent_id: row.agent_id,
       policy_name: row.policy_name,
+      policy_hash: row.policy_hash || undefined,
       phase: row.phase,
       status: row.status,
       created_at: row.created_at,
       updated_at: row.updated_at,
+      started_at: row.started_at || undefined,
       completed_at: row.completed_at || undefined,
+      pid: row.pid || undefined,
+      host: row.host || undefined,
       outcome: row.outcome ? JSON.parse(row.outcome) : undefined,
       metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
     };
@@ -401,6 +1043,129 @@ export class Logger {
     };
   }
 
+  /**
+   * Upsert approval record to SQLite
+   */
+  private upsertApprovalToSQLite(approval: ApprovalRecord): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO approvals (
+        id, issue_id, run_id, policy_name, policy_hash, phase, agent_id,
+        success, summary, approvers, status, decided_by, note,
+        created_at, decided_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      approval.id,
+      approval.issue_id,
+      approval.run_id,
+      approval.policy_name,
+      approval.policy_hash || null,
+      approval.phase,
+      approval.agent_id,
+      approval.success ? 1 : 0,
+      approval.summary || null,
+      approval.approvers ? JSON.stringify(approval.approvers) : null,
+      approval.status,
+      approval.decided_by || null,
+      approval.note || null,
+      approval.created_at,
+      approval.decided_at || null
+    );
+  }
+
+  /**
+   * Convert SQLite row to ApprovalRecord
+   */
+  private rowToApprovalRecord(row: any): ApprovalRecord {
+    return {
+      id: row.id,
+      issue_id: row.issue_id,
+      run_id: row.run_id,
+      policy_name: row.policy_name,
+      policy_hash: row.policy_hash || undefined,
+      phase: row.phase,
+      agent_id: row.agent_id,
+      success: row.success === 1,
+      summary: row.summary || undefined,
+      approvers: row.approvers ? JSON.parse(row.approvers) : undefined,
+      status: row.status,
+      decided_by: row.decided_by || undefined,
+      note: row.note || undefined,
+      created_at: row.created_at,
+      decided_at: row.decided_at || undefined,
+    };
+  }
+
+  /**
+   * Upsert question record to SQLite
+   */
+  private upsertQuestionToSQLite(question: QuestionRecord): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO questions (
+        id, issue_id, run_id, policy_name, phase, agent_id, question,
+        options, status, answer, answered_by, created_at, answered_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      question.id,
+      question.issue_id,
+      question.run_id,
+      question.policy_name,
+      question.phase,
+      question.agent_id,
+      question.question,
+      question.options ? JSON.stringify(question.options) : null,
+      question.status,
+      question.answer || null,
+      question.answered_by || null,
+      question.created_at,
+      question.answered_at || null
+    );
+  }
+
+  /**
+   * Convert SQLite row to QuestionRecord
+   */
+  private rowToQuestionRecord(row: any): QuestionRecord {
+    return {
+      id: row.id,
+      issue_id: row.issue_id,
+      run_id: row.run_id,
+      policy_name: row.policy_name,
+      phase: row.phase,
+      agent_id: row.agent_id,
+      question: row.question,
+      options: row.options ? JSON.parse(row.options) : undefined,
+      status: row.status,
+      answer: row.answer || undefined,
+      answered_by: row.answered_by || undefined,
+      created_at: row.created_at,
+      answered_at: row.answered_at || undefined,
+    };
+  }
+
+  /**
+   * Convert SQLite row to WorkflowState
+   */
+  private rowToWorkflowState(row: any): WorkflowState {
+    return {
+      issue_id: row.issue_id,
+      policy_name: row.policy_name,
+      policy_hash: row.policy_hash || undefined,
+      current_phase: row.current_phase,
+      attempt_count: row.attempt_count,
+      last_run_id: row.last_run_id || undefined,
+      status: row.status,
+      phase_started_at: row.phase_started_at || undefined,
+      next_attempt_at: row.next_attempt_at || undefined,
+      loop_counts: row.loop_counts ? JSON.parse(row.loop_counts) : undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
   /**
    * Close database connection
    */
@@ -0,0 +1,228 @@
+/**
+ * Mock Runner
+ * Deterministic agent runtime that replays scripted outcomes from a YAML fixture
+ */
+
+import { parse as parseYAML } from "yaml";
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, isAbsolute, relative, resolve } from "path";
+import type { AgentRunner, AgentRunRequest } from "./agent-runner.ts";
+import type { AgentFollowUp, AgentQuestion, AgentResult } from "./agent-result.ts";
+import type { ParsedEventStream, RunResult } from "./opencode.ts";
+import { RunTracker } from "./process-utils.ts";
+
+/**
+ * One scripted run. Omitted match fields (issue, phase, attempt,
+ * prompt_includes) match anything.
+ */
+export interface MockScript {
+  issue?: string;
+  phase?: string;
+  attempt?: number;            // 1-based attempt within the phase
+  prompt_includes?: string;    // Text the run's instructions must contain
+  status?: "success" | "failure" | "question";  // Reported in the result block (default success)
+  summary?: string;
+  error?: string;
+  question?: AgentQuestion;    // Asked when status is question
+  requires_approval?: boolean;
+  follow_ups?: AgentFollowUp[];
+  files?: { [path: string]: string };  // Written into the workspace
+  delay_ms?: number;           // Run duration; no output is produced meanwhile
+  exit_code?: number;          // Non-zero simulates the agent process crashing
+  output?: string;             // Raw final message, replacing the result block
+}
+
+export interface MockFixture {
+  runs: MockScript[];
+}
+
+/**
+ * Load and check a mock fixture file
+ */
+export function loadMockFixture(path: string): MockFixture {
+  const fixture = parseYAML(readFileSync(path, "utf-8")) as MockFixture;
+  if (!fixture || !Array.isArray(fixture.runs)) {
+    throw new Error(`Mock fixture ${path} must have a 'runs' list`);
+  }
+  return fixture;
+}
+
+/**
+ * Find the first script matching a run
+ */
+export function findMockScript(
+  fixture: MockFixture,
+  issueId: string | undefined,
+  phase: string | undefined,
+  attempt: number,
+  instructions: string = ""
+): MockScript | null {
+  return (
+    fixture.runs.find(
+      (script) =>
+        (script.issue === undefined || script.issue === issueId) &&
+        (script.phase === undefined || script.phase === phase) &&
+        (script.attempt === undefined || script.attempt === attempt) &&
+        (script.prompt_includes === undefined || instructions.includes(script.prompt_includes))
+    ) || null
+  );
+}
+
+/**
+ * Replays the agent's `fixture` instead of running a real agent, so whole
+ * policy flows can be exercised without OpenCode installed. Scripts are
+ * matched on the issue_id, phase and attempt variables and the instructions
+ * of the request.
+ */
+export class MockRunner implements AgentRunner {
+  readonly runtime = "mock" as const;
+  private tracker = new RunTracker();
+
+  async run(request: AgentRunRequest): Promise<RunResult> {
+    const directory = request.directory || process.cwd();
+    const fixturePath = request.agent.fixture;
+    if (!fixturePath) {
+      return {
+        success: false,
+        output: "",
+        error: `Agent '${request.agent.id}' has runtime 'mock' but no fixture`,
+      };
+    }
+
+    const vars = request.variables || {};
+    const attempt = Number(vars.attempt || 1);
+    const fixture = loadMockFixture(resolve(directory, fixturePath));
+    const script = findMockScript(fixture, vars.issue_id, vars.phase, attempt, request.message);
+    if (!script) {
+      return {
+        success: false,
+        output: "",
+        error: `No scripted run for issue ${vars.issue_id}, phase ${vars.phase}, attempt ${attempt}`,
+      };
+    }
+
+    const signal = this.tracker.start(request.run_id, request.signal);
+
+    try {
+      // There is no agent process; the session handle marks the run as running
+      request.onSession?.(`mock-${request.run_id}`);
+
+      const finished = await this.wait(script.delay_ms || 0, signal, request.timeoutMs);
+      if (finished !== "done") {
+        return {
+          success: false,
+          output: "",
+          error:
+            finished === "timeout"
+              ? `Agent timed out after ${request.timeoutMs}ms`
+              : "Agent run was aborted",
+          timed_out: finished === "timeout",
+          aborted: finished === "aborted",
+        };
+      }
+
+      const changedFiles = this.writeFiles(directory, script.files || {});
+      const message = script.output ?? this.buildMessage(script, changedFiles);
+      this.tracker.emit(request.run_id, message);
+      request.onOutput?.(message);
+
+      const events: ParsedEventStream = {
+        message,
+        toolCalls: [],
+        artifacts: changedFiles,
+        tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+        cost: 0,
+        errors: [],
+      };
+
+      if (script.exit_code) {
+        return {
+          success: false,
+          output: message,
+          error: `Agent exited with code ${script.exit_code}`,
+          events,
+        };
+      }
+
+      return { success: true, output: message, events };
+    } finally {
+      this.tracker.finish(request.run_id);
+    }
+  }
+
+  async abort(runId: string): Promise<boolean> {
+    return this.tracker.abort(runId);
+  }
+
+  stream(runId: string): AsyncIterable<string> {
+    return this.tracker.stream(runId);
+  }
+
+  /**
+   * Sleep for the scripted duration unless aborted or timed out first
+   */
+  private wait(
+    delayMs: number,
+    signal: AbortSignal,
+    timeoutMs?: number
+  ): Promise<"done" | "timeout" | "aborted"> {
+    if (signal.aborted) {
+      return Promise.resolve("aborted");
+    }
+
+    return new Promise((resolve) => {
+      const timedOut = timeoutMs !== undefined && timeoutMs < delayMs;
+      const timer = setTimeout(
+        () => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(timedOut ? "timeout" : "done");
+        },
+        timedOut ? timeoutMs : delayMs
+      );
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve("aborted");
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Write scripted files, refusing paths outside the workspace
+   */
+  private writeFiles(directory: string, files: { [path: string]: string }): string[] {
+    return Object.entries(files).map(([path, content]) => {
+      const target = resolve(directory, path);
+      const rel = relative(directory, target);
+      if (rel.startsWith("..") || isAbsolute(rel)) {
+        throw new Error(`Mock file ${path} is outside the workspace`);
+      }
+
+      mkdirSync(dirname(target), { recursive: true });
+      writeFileSync(target, content, "utf-8");
+      return rel;
+    });
+  }
+
+  /**
+   * Render the scripted outcome as an agent message ending in a result block
+   */
+  private buildMessage(script: MockScript, changedFiles: string[]): string {
+    const status = script.status || "success";
+    const result: AgentResult = {
+      status,
+      summary: script.summary || `Mock ${status}`,
+      ...(script.requires_approval !== undefined && {
+        requires_approval: script.requires_approval,
+      }),
+      ...(changedFiles.length > 0 && { changed_files: changedFiles }),
+      ...(script.follow_ups && { follow_ups: script.follow_ups }),
+      ...(status === "failure" && { error: script.error || "Mock failure" }),
+      ...(status === "question" && {
+        question: script.question || { text: "Mock question" },
+      }),
+    };
+
+    return `${result.summary}\n\n\`\`\`json\n${JSON.stringify(result, null, 2)}\n\`\`\``;
+  }
+}
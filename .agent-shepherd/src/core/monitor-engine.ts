@@ -3,9 +3,11 @@
  * Handles supervision, stall detection, timeout enforcement, and HITL handling
  */
 
-import { getLogger, type RunRecord } from "./logging.ts";
-import { getPolicyEngine } from "./policy.ts";
-import { updateIssue } from "./beads.ts";
+import { getLogger, type Logger, type RunRecord } from "./logging.ts";
+import { getPolicyEngine, type PolicyEngine } from "./policy.ts";
+import { getIssueStore, type IssueStore } from "./issue-store.ts";
+import { getProcessRegistry, type ProcessRegistry } from "./process-registry.ts";
+import { getOpenCodeClient } from "./opencode.ts";
 
 export interface MonitorConfig {
   poll_interval_ms?: number;
@@ -13,6 +15,16 @@ export interface MonitorConfig {
   timeout_multiplier?: number;
 }
 
+/**
+ * Collaborators of the monitor, defaulting to the shared singletons
+ */
+export interface MonitorDependencies {
+  issues?: IssueStore;
+  policyEngine?: PolicyEngine;
+  logger?: Logger;
+  processRegistry?: ProcessRegistry;
+}
+
 export interface MonitorEvent {
   type: "stall" | "timeout" | "human_takeover" | "hitl" | "error";
   run_id: string;
@@ -25,17 +37,24 @@ export interface MonitorEvent {
  */
 export class MonitorEngine {
   private config: MonitorConfig;
-  private logger = getLogger();
-  private policyEngine = getPolicyEngine();
+  private issues: IssueStore;
+  private logger: Logger;
+  private policyEngine: PolicyEngine;
+  private processRegistry: ProcessRegistry;
+  private opencode = getOpenCodeClient();
   private isRunning = false;
 
-  constructor(config?: MonitorConfig) {
+  constructor(config?: MonitorConfig, deps: MonitorDependencies = {}) {
     this.config = {
       poll_interval_ms: 10000, // 10 seconds default
       stall_threshold_ms: 60000, // 1 minute default
       timeout_multiplier: 1.0,
       ...config,
     };
+    this.issues = deps.issues || getIssueStore();
+    this.logger = deps.logger || getLogger();
+    this.policyEngine = deps.policyEngine || getPolicyEngine();
+    this.processRegistry = deps.processRegistry || getProcessRegistry();
   }
 
   /**
@@ -48,6 +67,7 @@ export class MonitorEngine {
     while (this.isRunning) {
       try {
         await this.monitorRunningRuns();
+        await this.monitorUnrecordedQuestions();
       } catch (error) {
         console.error("Error in monitor loop:", error);
       }
@@ -59,6 +79,13 @@ export class MonitorEngine {
     }
   }
 
+  /**
+   * Apply reloaded settings; they take effect from the next check
+   */
+  updateConfig(config: MonitorConfig = {}): void {
+    this.config = { ...this.config, ...config };
+  }
+
   /**
    * Stop the monitor loop
    */
@@ -84,6 +111,22 @@ export class MonitorEngine {
     }
   }
 
+  /**
+   * Record the questions of blocked runs that have none yet, which happens
+   * when the worker stops between a run asking and recording its question
+   */
+  private async monitorUnrecordedQuestions(): Promise<void> {
+    for (const run of this.logger.listUnrecordedQuestionRuns()) {
+      try {
+        if (this.detectUnrecordedQuestion(run)) {
+          await this.handleQuestion(run);
+        }
+      } catch (error) {
+        console.error(`Error recording the question of run ${run.id}:`, error);
+      }
+    }
+  }
+
   /**
    * Monitor a single run
    */
@@ -109,6 +152,11 @@ export class MonitorEngine {
       return;
     }
 
+    // Approval applies to finished work; live runs are decided by the worker
+    if (this.logger.getHeartbeat(run.id)) {
+      return;
+    }
+
     // Check for HITL states
     const needsHITL = await this.detectHITL(run);
     if (needsHITL) {
@@ -118,12 +166,20 @@ export class MonitorEngine {
   }
 
   /**
-   * Detect if a run has stalled
+   * Detect if a run has stalled (no agent output within the stall threshold)
    */
-  // eslint-disable-next-line no-unused-vars
-  private async detectStall(_run: RunRecord): Promise<boolean> {
-    // CLI execution completes synchronously, so runs don't stall
-    return false;
+  private async detectStall(run: RunRecord): Promise<boolean> {
+    const heartbeat = this.logger.getHeartbeat(run.id);
+    if (!heartbeat) {
+      return false;
+    }
+
+    const threshold = this.getRunPolicies(run).getStallThreshold(
+      run.policy_name,
+      this.config.stall_threshold_ms
+    );
+
+    return Date.now() - heartbeat.last_output_at > threshold;
   }
 
   /**
@@ -134,12 +190,27 @@ export class MonitorEngine {
     const runDuration = now - run.created_at;
 
     const timeout =
-      this.policyEngine.calculateTimeout(run.policy_name, run.phase) *
+      this.getRunPolicies(run).calculateTimeout(run.policy_name, run.phase) *
       this.config.timeout_multiplier!;
 
     return runDuration > timeout;
   }
 
+  /**
+   * Policies as of the version a run started with, so a reload does not
+   * change the limits of runs already in flight
+   */
+  private getRunPolicies(run: RunRecord): PolicyEngine {
+    if (!run.policy_hash || run.policy_hash === this.policyEngine.getPolicyHash(run.policy_name)) {
+      return this.policyEngine;
+    }
+
+    const version = this.logger.getPolicyVersion(run.policy_hash);
+    return version
+      ? this.policyEngine.withPolicy(run.policy_name, version.config)
+      : this.policyEngine;
+  }
+
   /**
    * Detect human takeover in session
    */
@@ -148,9 +219,13 @@ export class MonitorEngine {
       return false;
     }
 
-    // CLI execution doesn't support real-time human intervention detection
-    // For now, return false
-    return false;
+    // Only server sessions can be joined by a human; CLI runs are private
+    if (this.opencode.getTransport() !== "server") {
+      return false;
+    }
+
+    const humanMessages = await this.opencode.getHumanMessages(run.session_id);
+    return humanMessages.length > 0;
   }
 
   /**
@@ -166,6 +241,15 @@ export class MonitorEngine {
     return this.policyEngine.requiresHITL(run.policy_name);
   }
 
+  /**
+   * Detect if the worker is done with a blocked run whose question was
+   * never recorded
+   */
+  private detectUnrecordedQuestion(run: RunRecord): boolean {
+    // The worker records a group's questions once all its members finish
+    return this.logger.queryRuns({ issue_id: run.issue_id, status: "running" }).length === 0;
+  }
+
   /**
    * Handle stalled run
    */
@@ -179,20 +263,21 @@ export class MonitorEngine {
       reasoning: "No activity detected within stall threshold",
     });
 
-    // Mark run as failed
+    // Mark run as failed before killing so the worker keeps this outcome
     this.logger.updateRun(run.id, {
       status: "failed",
       outcome: {
         success: false,
         error: "Run stalled - no activity detected",
+        error_code: "STALLED",
       },
       completed_at: Date.now(),
     });
 
-    // No session to abort with CLI execution
+    await this.abortRun(run);
 
     // Update issue to open for retry
-    await updateIssue(run.issue_id, { status: "open" });
+    await this.issues.updateIssue(run.issue_id, { status: "open" });
   }
 
   /**
@@ -214,14 +299,50 @@ export class MonitorEngine {
       outcome: {
         success: false,
         error: "Run timed out",
+        error_code: "TIMEOUT",
       },
       completed_at: Date.now(),
     });
 
-    // No session to abort with CLI execution
+    await this.abortRun(run);
 
     // Update issue to open for retry
-    await updateIssue(run.issue_id, { status: "open" });
+    await this.issues.updateIssue(run.issue_id, { status: "open" });
+  }
+
+  /**
+   * Kill the agent process of an in-flight run
+   */
+  private async abortRun(run: RunRecord): Promise<void> {
+    if (this.processRegistry.abort(run.id)) {
+      console.log(`Killed agent process ${run.pid ?? ""} for run ${run.id}`);
+    } else if (run.session_id && this.opencode.getTransport() === "server") {
+      console.log(`Aborting session ${run.session_id} for run ${run.id}`);
+      await this.opencode.abortSession(run.session_id).catch((error) =>
+        console.error(`Failed to abort session ${run.session_id}:`, error)
+      );
+    }
+    this.logger.clearHeartbeat(run.id);
+  }
+
+  /**
+   * Check whether a run's agent is still working
+   */
+  private async isRunActive(run: RunRecord): Promise<boolean> {
+    if (this.processRegistry.isAlive(run)) {
+      return true;
+    }
+
+    if (run.session_id && this.opencode.getTransport() === "server") {
+      try {
+        const status = await this.opencode.getSessionStatus(run.session_id);
+        return status.type !== "idle";
+      } catch {
+        return false;
+      }
+    }
+
+    return false;
   }
 
   /**
@@ -243,7 +364,7 @@ export class MonitorEngine {
     });
 
     // Update issue to blocked
-    await updateIssue(run.issue_id, { status: "blocked" });
+    await this.issues.updateIssue(run.issue_id, { status: "blocked" });
   }
 
   /**
@@ -265,7 +386,41 @@ export class MonitorEngine {
     });
 
     // Update issue to blocked
-    await updateIssue(run.issue_id, { status: "blocked" });
+    await this.issues.updateIssue(run.issue_id, { status: "blocked" });
+  }
+
+  /**
+   * Record a blocked run's question so that answering it reopens the issue
+   * at the phase that asked
+   */
+  private async handleQuestion(run: RunRecord): Promise<void> {
+    console.log(`Run ${run.id} is waiting for an answer`);
+
+    const question = this.logger.createQuestion({
+      issue_id: run.issue_id,
+      run_id: run.id,
+      policy_name: run.policy_name,
+      phase: run.phase,
+      agent_id: run.agent_id,
+      question: run.outcome!.question!.text,
+      options: run.outcome!.question!.options,
+    });
+
+    this.logger.logDecision({
+      run_id: run.id,
+      type: "hitl",
+      decision: "question_asked",
+      reasoning: question.question,
+      metadata: { issue_id: run.issue_id, question_id: question.id, phase: run.phase },
+    });
+
+    const workflow = this.logger.getWorkflowState(run.issue_id);
+    if (workflow && workflow.status === "active") {
+      this.logger.saveWorkflowState({ ...workflow, last_run_id: run.id, status: "blocked" });
+    }
+
+    // Update issue to blocked
+    await this.issues.updateIssue(run.issue_id, { status: "blocked" });
   }
 
   /**
@@ -277,6 +432,14 @@ export class MonitorEngine {
     console.log(`Found ${runningRuns.length} interrupted runs`);
 
     for (const run of runningRuns) {
+      // The agent may outlive a restarted monitor; keep supervising it
+      if (await this.isRunActive(run)) {
+        console.log(
+          `Run ${run.id} is still running (${run.pid ? `pid ${run.pid}` : `session ${run.session_id}`} on ${run.host}), reattaching`
+        );
+        continue;
+      }
+
       console.log(`Recovering run ${run.id}`);
 
       // Mark as failed and set issue back to open for retry
@@ -285,11 +448,12 @@ export class MonitorEngine {
         outcome: {
           success: false,
           error: "Run interrupted by system restart",
+          error_code: "INTERRUPTED",
         },
         completed_at: Date.now(),
       });
 
-      await updateIssue(run.issue_id, { status: "open" });
+      await this.issues.updateIssue(run.issue_id, { status: "open" });
     }
   }
 }
@@ -3,12 +3,67 @@
  * Uses CLI to start server and direct HTTP calls for API access
  */
 
+import { killProcessTree, readStream } from "./process-utils";
+
 export interface SessionConfig {
   directory?: string;
   title?: string;
   agent?: string;
   model?: string;  // Optional model override in format "provider/model"
   message?: string;
+  timeoutMs?: number;    // Kill the agent process after this long
+  signal?: AbortSignal;  // Kill the agent process when aborted
+  // eslint-disable-next-line no-unused-vars
+  onSpawn?: (pid: number) => void;
+  // eslint-disable-next-line no-unused-vars
+  onOutput?: (chunk: string) => void;  // Called for every stdout/stderr chunk
+  // eslint-disable-next-line no-unused-vars
+  onSession?: (sessionId: string) => void;  // Server transport only
+}
+
+export type OpenCodeTransport = "cli" | "server";
+
+export interface OpenCodeClientConfig {
+  directory?: string;
+  binary?: string;            // CLI transport: opencode executable
+  transport?: OpenCodeTransport;
+  serverUrl?: string;         // Server transport: `opencode serve` base URL
+  pollIntervalMs?: number;    // Server transport: session polling interval
+}
+
+/**
+ * Session returned by the OpenCode server
+ */
+export interface OpenCodeSession {
+  id: string;
+  title: string;
+  directory: string;
+  time: {
+    created: number;
+    updated: number;
+  };
+}
+
+export type OpenCodeSessionStatus =
+  | { type: "idle" }
+  | { type: "busy" }
+  | { type: "retry"; attempt: number; message: string; next: number };
+
+/**
+ * Message (with its parts) returned by the OpenCode server
+ */
+export interface OpenCodeMessage {
+  info: {
+    id: string;
+    sessionID: string;
+    role: "user" | "assistant";
+    time: {
+      created: number;
+      completed?: number;
+    };
+    error?: { name: string; data?: { message?: string; [key: string]: unknown } };
+  };
+  parts: Array<{ id: string; type: string; [key: string]: unknown }>;
 }
 
 export interface RunResult {
@@ -16,16 +71,115 @@ export interface RunResult {
   output: string;
   error?: string;
   sessionId?: string;
+  events?: ParsedEventStream;
+  timed_out?: boolean;
+  aborted?: boolean;
+}
+
+/**
+ * Token usage reported by a `step_finish` event
+ */
+export interface TokenUsage {
+  input: number;
+  output: number;
+  reasoning: number;
+  cache: {
+    read: number;
+    write: number;
+  };
+}
+
+/**
+ * Tool invocation reported by a `tool_use` event
+ */
+export interface ToolCall {
+  id: string;
+  tool: string;
+  status: "pending" | "running" | "completed" | "error";
+  input: { [key: string]: unknown };
+  title?: string;
+  output?: string;
+  error?: string;
+}
+
+/**
+ * Single line of `opencode run --format json` output
+ */
+export type OpenCodeEvent =
+  | { type: "step_start"; timestamp: number; sessionID: string; part: { type: "step-start" } }
+  | {
+      type: "step_finish";
+      timestamp: number;
+      sessionID: string;
+      part: { type: "step-finish"; reason: string; cost: number; tokens: TokenUsage };
+    }
+  | { type: "text"; timestamp: number; sessionID: string; part: { type: "text"; text: string } }
+  | {
+      type: "tool_use";
+      timestamp: number;
+      sessionID: string;
+      part: {
+        type: "tool";
+        callID: string;
+        tool: string;
+        state: Omit<ToolCall, "id" | "tool">;
+      };
+    }
+  | {
+      type: "error";
+      timestamp: number;
+      sessionID: string;
+      error: { name: string; data?: { message?: string; [key: string]: unknown } };
+    };
+
+/**
+ * Aggregated view of an OpenCode JSON event stream
+ */
+export interface ParsedEventStream {
+  sessionId?: string;
+  message?: string;
+  toolCalls: ToolCall[];
+  artifacts: string[];
+  tokens: TokenUsage;
+  cost: number;
+  errors: string[];
 }
 
+// Tools whose `filePath` input is a file the agent changed
+const FILE_EDITING_TOOLS = ["edit", "write", "patch", "multiedit"];
+
 /**
- * OpenCode client using CLI commands
+ * OpenCode client using CLI commands or an `opencode serve` HTTP server
  */
 export class OpenCodeClient {
   private directory: string;
+  private binary: string;
+  private transport: OpenCodeTransport;
+  private serverUrl: string;
+  private pollIntervalMs: number;
 
-  constructor(config?: { directory?: string }) {
+  constructor(config?: OpenCodeClientConfig) {
     this.directory = config?.directory || process.cwd();
+    this.binary = config?.binary || "opencode";
+    this.transport = config?.transport || "cli";
+    this.serverUrl = (config?.serverUrl || "http://127.0.0.1:4096").replace(/\/$/, "");
+    this.pollIntervalMs = config?.pollIntervalMs || 1000;
+  }
+
+  /**
+   * Apply reloaded transport settings; they take effect from the next run
+   */
+  updateConfig(config: Omit<OpenCodeClientConfig, "directory" | "binary"> = {}): void {
+    this.transport = config.transport || "cli";
+    this.serverUrl = (config.serverUrl || "http://127.0.0.1:4096").replace(/\/$/, "");
+    this.pollIntervalMs = config.pollIntervalMs || 1000;
+  }
+
+  /**
+   * Get the configured transport
+   */
+  getTransport(): OpenCodeTransport {
+    return this.transport;
   }
 
   /**
@@ -49,124 +203,480 @@ export class OpenCodeClient {
       args.push(config.message);
     }
 
-    console.log(`Running: opencode ${args.join(' ')}`);
+    console.log(`Running: ${this.binary} ${args.join(' ')}`);
 
-    const proc = spawn(["opencode", ...args], {
+    const proc = spawn([this.binary, ...args], {
       cwd: this.directory,
       stdout: "pipe",
       stderr: "pipe",
+      detached: true,  // Own process group so tool subprocesses die with it
     });
+    config.onSpawn?.(proc.pid);
 
-    let stdout = "";
-    let stderr = "";
-
-    // Handle stdout
-    const stdoutReader = proc.stdout?.getReader();
-    if (stdoutReader) {
-      try {
-        while (true) {
-          const { done, value } = await stdoutReader.read();
-          if (done) break;
-          stdout += new TextDecoder().decode(value);
-        }
-      } finally {
-        stdoutReader.releaseLock();
-      }
+    // Kill the whole process tree when the timeout or abort signal fires
+    let timedOut = false;
+    let aborted = false;
+    const timer = config.timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          killProcessTree(proc.pid);
+        }, config.timeoutMs)
+      : undefined;
+    const onAbort = () => {
+      aborted = true;
+      killProcessTree(proc.pid);
+    };
+    if (config.signal?.aborted) {
+      onAbort();
+    } else {
+      config.signal?.addEventListener("abort", onAbort, { once: true });
     }
 
-    // Handle stderr
-    const stderrReader = proc.stderr?.getReader();
-    if (stderrReader) {
-      try {
-        while (true) {
-          const { done, value } = await stderrReader.read();
-          if (done) break;
-          stderr += new TextDecoder().decode(value);
-        }
-      } finally {
-        stderrReader.releaseLock();
-      }
-    }
+    // Drain both pipes concurrently so a full stderr buffer cannot block stdout
+    const [stdout, stderr] = await Promise.all([
+      readStream(proc.stdout, config.onOutput),
+      readStream(proc.stderr, config.onOutput),
+    ]);
 
     const exitCode = await proc.exited;
+    clearTimeout(timer);
+    config.signal?.removeEventListener("abort", onAbort);
+
+    if (timedOut || aborted) {
+      const events = parseEventStream(stdout);
+      return {
+        success: false,
+        output: stdout,
+        error: timedOut
+          ? `Agent timed out after ${config.timeoutMs}ms`
+          : "Agent run was aborted",
+        sessionId: events.sessionId,
+        events,
+        timed_out: timedOut,
+        aborted,
+      };
+    }
 
     if (exitCode !== 0) {
+      const events = parseEventStream(stdout);
+      return {
+        success: false,
+        output: stdout,
+        error: stderr || events.errors.join("\n") || `Process exited with code ${exitCode}`,
+        sessionId: events.sessionId,
+        events,
+      };
+    }
+
+    const events = parseEventStream(stdout);
+
+    if (events.errors.length > 0) {
       return {
         success: false,
         output: stdout,
-        error: stderr || `Process exited with code ${exitCode}`,
+        error: events.errors.join("\n"),
+        sessionId: events.sessionId,
+        events,
       };
     }
 
     return {
       success: true,
       output: stdout,
-      sessionId: this.extractSessionId(stdout),
+      sessionId: events.sessionId,
+      events,
     };
   }
 
   /**
-   * Run agent (alias for runAgentCLI)
+   * Run an agent using the configured transport
    */
   async runAgent(config: SessionConfig): Promise<RunResult> {
-    return this.runAgentCLI(config);
+    return this.transport === "server"
+      ? this.runAgentServer(config)
+      : this.runAgentCLI(config);
   }
 
   /**
-   * Extract session ID from OpenCode output
+   * Run an agent in a session on the OpenCode server
    */
-  private extractSessionId(output: string): string | undefined {
+  async runAgentServer(config: SessionConfig): Promise<RunResult> {
+    // Pin the server settings for the whole run, so a reload only applies
+    // to runs that start after it
+    const client = new OpenCodeClient({
+      directory: this.directory,
+      binary: this.binary,
+      transport: "server",
+      serverUrl: this.serverUrl,
+      pollIntervalMs: this.pollIntervalMs,
+    });
+    const controller = new AbortController();
+    let timedOut = false;
+    let aborted = false;
+
+    const timer = config.timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, config.timeoutMs)
+      : undefined;
+    const onAbort = () => {
+      aborted = true;
+      controller.abort();
+    };
+    if (config.signal?.aborted) {
+      onAbort();
+    } else {
+      config.signal?.addEventListener("abort", onAbort, { once: true });
+    }
+
+    let session: OpenCodeSession | undefined;
     try {
-      const lines = output.split('\n');
-      for (const line of lines) {
-        if (line.trim()) {
-          const data = JSON.parse(line);
-          if (data.sessionId || data.session_id) {
-            return data.sessionId || data.session_id;
-          }
-        }
+      session = await client.createSession({ title: config.title || "Agent Shepherd Run" });
+      config.onSession?.(session.id);
+
+      await client.sendMessage(session.id, config);
+      await client.waitForCompletion(session.id, {
+        signal: controller.signal,
+        onActivity: () => config.onOutput?.(""),
+      });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        return {
+          success: false,
+          output: "",
+          error: error instanceof Error ? error.message : String(error),
+          sessionId: session?.id,
+        };
       }
-    } catch {
-      // Ignore JSON parsing errors
+    } finally {
+      clearTimeout(timer);
+      config.signal?.removeEventListener("abort", onAbort);
+    }
+
+    if (timedOut || aborted) {
+      if (session) {
+        await client.abortSession(session.id).catch(() => undefined);
+      }
+      return {
+        success: false,
+        output: "",
+        error: timedOut
+          ? `Agent timed out after ${config.timeoutMs}ms`
+          : "Agent run was aborted",
+        sessionId: session?.id,
+        timed_out: timedOut,
+        aborted,
+      };
+    }
+
+    const messages = await client.getMessages(session!.id);
+    const events = parseSessionMessages(messages);
+
+    return {
+      success: events.errors.length === 0,
+      output: JSON.stringify(messages),
+      error: events.errors.length > 0 ? events.errors.join("\n") : undefined,
+      sessionId: session!.id,
+      events,
+    };
+  }
+
+  /**
+   * Create a session on the OpenCode server
+   */
+  async createSession(options: { title?: string } = {}): Promise<OpenCodeSession> {
+    return this.request<OpenCodeSession>("POST", "/session", { title: options.title });
+  }
+
+  /**
+   * Send a prompt to a session without waiting for the reply
+   */
+  async sendMessage(
+    sessionId: string,
+    config: Pick<SessionConfig, "agent" | "model" | "message">
+  ): Promise<void> {
+    const body: { [key: string]: unknown } = {
+      agent: config.agent,
+      parts: [{ type: "text", text: config.message || "" }],
+    };
+
+    // Model override in format "provider/model"
+    if (config.model) {
+      const [providerID, ...modelParts] = config.model.split("/");
+      body.model = { providerID, modelID: modelParts.join("/") };
     }
-    return undefined;
+
+    await this.request("POST", `/session/${encodeURIComponent(sessionId)}/prompt_async`, body);
+  }
+
+  /**
+   * List the messages of a session
+   */
+  async getMessages(sessionId: string): Promise<OpenCodeMessage[]> {
+    return this.request<OpenCodeMessage[]>(
+      "GET",
+      `/session/${encodeURIComponent(sessionId)}/message`
+    );
   }
 
-  // Placeholder methods for SDK compatibility
-  async createSession(): Promise<any> {
-    throw new Error("Use runAgentCLI() instead - SDK methods not implemented");
+  /**
+   * Get the current status of a session (sessions without activity are idle)
+   */
+  async getSessionStatus(sessionId: string): Promise<OpenCodeSessionStatus> {
+    const statuses = await this.request<{ [id: string]: OpenCodeSessionStatus }>(
+      "GET",
+      "/session/status"
+    );
+    return statuses[sessionId] || { type: "idle" };
   }
 
-  async sendMessage(): Promise<any> {
-    throw new Error("Use runAgentCLI() instead - SDK methods not implemented");
+  /**
+   * Poll a session until the agent has finished replying.
+   * The session is done once it is idle and its last message is a
+   * completed (or failed) assistant message.
+   */
+  async waitForCompletion(
+    sessionId: string,
+    options: {
+      signal?: AbortSignal;
+      onActivity?: () => void;  // Called whenever new output is observed
+    } = {}
+  ): Promise<OpenCodeMessage[]> {
+    let lastSignature = "";
+
+    while (true) {
+      if (options.signal?.aborted) {
+        throw new Error("Wait for completion aborted");
+      }
+
+      const [status, messages] = await Promise.all([
+        this.getSessionStatus(sessionId),
+        this.getMessages(sessionId),
+      ]);
+
+      const signature = this.activitySignature(messages);
+      if (signature !== lastSignature) {
+        lastSignature = signature;
+        options.onActivity?.();
+      }
+
+      const last = messages[messages.length - 1];
+      if (
+        status.type === "idle" &&
+        last?.info.role === "assistant" &&
+        (last.info.time.completed || last.info.error)
+      ) {
+        return messages;
+      }
+
+      await new Promise<void>((resolve) => {
+        const onAbort = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        const timer = setTimeout(() => {
+          options.signal?.removeEventListener("abort", onAbort);
+          resolve();
+        }, this.pollIntervalMs);
+        options.signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    }
   }
 
-  async getMessages(): Promise<any[]> {
-    return [];
+  /**
+   * User messages in a session that were not sent by Agent Shepherd.
+   * Each run sends one prompt per session, so every later user message
+   * comes from a human who took over the session.
+   */
+  async getHumanMessages(
+    sessionId: string,
+    agentPrompts: number = 1
+  ): Promise<OpenCodeMessage[]> {
+    const messages = await this.getMessages(sessionId);
+    return messages
+      .filter((message) => message.info.role === "user")
+      .slice(agentPrompts);
   }
 
-  async waitForCompletion(): Promise<any> {
-    throw new Error("Use runAgentCLI() instead - SDK methods not implemented");
+  /**
+   * Abort the agent currently running in a session
+   */
+  async abortSession(sessionId: string): Promise<void> {
+    await this.request("POST", `/session/${encodeURIComponent(sessionId)}/abort`);
   }
 
-  isHumanMessage(): boolean {
-    return false;
+  /**
+   * Summarize session progress so changes between polls can be detected
+   */
+  private activitySignature(messages: OpenCodeMessage[]): string {
+    const last = messages[messages.length - 1];
+    const lastPart = last?.parts[last.parts.length - 1];
+    const partCount = messages.reduce((count, m) => count + m.parts.length, 0);
+    const lastPartState = (lastPart?.state as { status?: string } | undefined)?.status;
+
+    return [messages.length, partCount, lastPart?.id, lastPartState, last?.info.time.completed].join(":");
   }
 
-  async abortSession(): Promise<void> {
-    // No-op for CLI approach
+  /**
+   * Send a request to the OpenCode server
+   */
+  private async request<T = void>(
+    method: "GET" | "POST",
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const url = new URL(this.serverUrl + path);
+    url.searchParams.set("directory", this.directory);
+
+    const response = await fetch(url, {
+      method,
+      headers: body !== undefined ? { "Content-Type": "application/json" } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(
+        `OpenCode server ${method} ${path} failed (${response.status}): ${text}`
+      );
+    }
+
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
   }
 }
 
+/**
+ * Parse the JSON event lines emitted by `opencode run --format json`
+ */
+export function parseEventStream(output: string): ParsedEventStream {
+  const events: OpenCodeEvent[] = [];
+
+  for (const line of output.split("\n")) {
+    if (!line.trim()) continue;
+
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      // Ignore non-JSON lines (e.g. CLI banners)
+    }
+  }
+
+  return summarizeEvents(events);
+}
+
+/**
+ * Parse the messages of a server session into the same summary as the CLI
+ * event stream, by replaying their parts as events
+ */
+export function parseSessionMessages(messages: OpenCodeMessage[]): ParsedEventStream {
+  const eventTypes: { [partType: string]: OpenCodeEvent["type"] } = {
+    "step-start": "step_start",
+    "step-finish": "step_finish",
+    text: "text",
+    tool: "tool_use",
+  };
+  const events: OpenCodeEvent[] = [];
+
+  for (const { info, parts } of messages) {
+    if (info.role !== "assistant") continue;
+
+    for (const part of parts) {
+      const type = eventTypes[part.type];
+      if (type) {
+        events.push({ type, timestamp: info.time.created, sessionID: info.sessionID, part } as OpenCodeEvent);
+      }
+    }
+
+    if (info.error) {
+      events.push({
+        type: "error",
+        timestamp: info.time.completed || info.time.created,
+        sessionID: info.sessionID,
+        error: info.error,
+      });
+    }
+  }
+
+  return summarizeEvents(events);
+}
+
+/**
+ * Aggregate OpenCode events into message, tool calls, usage and errors
+ */
+function summarizeEvents(events: OpenCodeEvent[]): ParsedEventStream {
+  const parsed: ParsedEventStream = {
+    toolCalls: [],
+    artifacts: [],
+    tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+    cost: 0,
+    errors: [],
+  };
+
+  for (const event of events) {
+    if (!parsed.sessionId && event.sessionID) {
+      parsed.sessionId = event.sessionID;
+    }
+
+    switch (event.type) {
+      case "text":
+        if (event.part.text.trim()) {
+          parsed.message = event.part.text;
+        }
+        break;
+
+      case "tool_use": {
+        const { callID, tool, state } = event.part;
+        parsed.toolCalls.push({ id: callID, tool, ...state });
+
+        const filePath = state.input?.filePath;
+        if (
+          state.status === "completed" &&
+          FILE_EDITING_TOOLS.includes(tool) &&
+          typeof filePath === "string" &&
+          !parsed.artifacts.includes(filePath)
+        ) {
+          parsed.artifacts.push(filePath);
+        }
+        break;
+      }
+
+      case "step_finish": {
+        const { tokens, cost } = event.part;
+        parsed.tokens.input += tokens?.input || 0;
+        parsed.tokens.output += tokens?.output || 0;
+        parsed.tokens.reasoning += tokens?.reasoning || 0;
+        parsed.tokens.cache.read += tokens?.cache?.read || 0;
+        parsed.tokens.cache.write += tokens?.cache?.write || 0;
+        parsed.cost += cost || 0;
+        break;
+      }
+
+      case "error":
+        parsed.errors.push(
+          event.error?.data?.message || event.error?.name || "Unknown OpenCode error"
+        );
+        break;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Total tokens billed for a run (cache reads and writes excluded)
+ */
+export function totalTokens(tokens: TokenUsage): number {
+  return tokens.input + tokens.output + tokens.reasoning;
+}
+
 /**
  * Create a singleton OpenCode client instance
  */
 let defaultClient: OpenCodeClient | null = null;
 
-export function getOpenCodeClient(config?: {
-  directory?: string;
-  serverUrl?: string;
-}): OpenCodeClient {
+export function getOpenCodeClient(config?: OpenCodeClientConfig): OpenCodeClient {
   if (!defaultClient) {
     defaultClient = new OpenCodeClient(config);
   }
@@ -58,6 +58,15 @@ export function findPluginsDir(): string {
   return join(global, "plugins");
 }
 
+export function findPromptsDir(): string {
+  const local = findLocalAgentShepherdDir();
+  if (local && existsSync(join(local, "prompts"))) {
+    return join(local, "prompts");
+  }
+  const global = getGlobalInstallDir();
+  return join(global, "prompts");
+}
+
 // Legacy function - backward compatibility
 export function findAgentShepherdDir(): string {
   const local = findLocalAgentShepherdDir();
@@ -3,9 +3,8 @@
  * Validates that policies have valid capabilities and capabilities have active agents
  */
 
-import { getPolicyEngine } from "./policy";
+import { getPolicyEngine, type PolicyEngine } from "./policy";
 import { getAgentRegistry } from "./agent-registry";
-import { loadConfig } from "./config";
 
 export interface ValidationError {
   type: 'policy' | 'capability' | 'agent' | 'chain';
@@ -43,9 +42,12 @@ export interface DeadEndInfo {
 }
 
 export class PolicyCapabilityValidator {
-  private policyEngine = getPolicyEngine();
+  private policyEngine: PolicyEngine;
   private agentRegistry = getAgentRegistry();
-  private config = loadConfig();
+
+  constructor(policyEngine?: PolicyEngine) {
+    this.policyEngine = policyEngine || getPolicyEngine();
+  }
 
   /**
    * Validate the complete policy -> capability -> agent chain
@@ -69,10 +71,12 @@ export class PolicyCapabilityValidator {
       }
 
       // Validate each phase's capabilities
-      for (const phase of policy.phases) {
+      for (const phase of this.policyEngine.getRunnablePhases(policyName)) {
         const phaseErrors = this.validatePhaseCapabilities(policyName, phase);
         errors.push(...phaseErrors);
       }
+
+      errors.push(...this.validatePhaseGraph(policyName));
     }
 
     const valid = errors.filter(e => e.severity === 'error').length === 0;
@@ -85,6 +89,115 @@ export class PolicyCapabilityValidator {
     };
   }
 
+  /**
+   * Validate a policy's phase transitions: every phase must be reachable
+   * from the first one, and every cycle must contain a backward jump out
+   * of a phase with max_loops
+   */
+  validatePhaseGraph(policyName: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const phases = this.policyEngine.getPhaseSequence(policyName);
+    if (phases.length === 0) {
+      return errors;
+    }
+
+    const edges = new Map<string, string[]>();
+    for (const phase of phases) {
+      const targets = this.policyEngine.getPhaseTargets(policyName, phase);
+      edges.set(
+        phase,
+        [targets.success, targets.failure, targets.approval_rejected].filter(
+          (target): target is string => !!target
+        )
+      );
+    }
+
+    // Reachability from the first phase
+    const reachable = new Set<string>([phases[0]]);
+    const queue = [phases[0]];
+    while (queue.length > 0) {
+      for (const target of edges.get(queue.shift()!) || []) {
+        if (!reachable.has(target)) {
+          reachable.add(target);
+          queue.push(target);
+        }
+      }
+    }
+
+    for (const phase of phases.filter((p) => !reachable.has(p))) {
+      errors.push({
+        type: 'policy',
+        severity: 'error',
+        message: `Phase '${phase}' is unreachable from the first phase '${phases[0]}'`,
+        location: `policies.yaml: ${policyName}.${phase}`,
+        suggestion: 'Point an on_success, on_failure or on_approval_rejected target at this phase, or remove it'
+      });
+    }
+
+    // Loop edges out of phases with max_loops are bounded; any cycle left is not
+    const unbounded = new Map<string, string[]>();
+    for (const [phase, targets] of edges) {
+      const maxLoops = this.policyEngine.getPhaseConfig(policyName, phase)?.max_loops;
+      unbounded.set(
+        phase,
+        targets.filter(
+          (target) =>
+            !maxLoops || !this.policyEngine.isLoopTransition(policyName, phase, target)
+        )
+      );
+    }
+
+    const cycle = this.findCycle(phases, unbounded);
+    if (cycle) {
+      errors.push({
+        type: 'policy',
+        severity: 'error',
+        message: `Policy '${policyName}' has an unbounded cycle: ${cycle.join(' → ')}`,
+        location: `policies.yaml: ${policyName}`,
+        suggestion: 'Set max_loops on the phase in the cycle that jumps back'
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Find a cycle in a phase graph, returned as the path that closes it
+   */
+  private findCycle(phases: string[], edges: Map<string, string[]>): string[] | null {
+    const done = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (phase: string): string[] | null => {
+      const index = path.indexOf(phase);
+      if (index !== -1) {
+        return [...path.slice(index), phase];
+      }
+      if (done.has(phase)) {
+        return null;
+      }
+
+      path.push(phase);
+      for (const target of edges.get(phase) || []) {
+        const cycle = visit(target);
+        if (cycle) {
+          return cycle;
+        }
+      }
+      path.pop();
+      done.add(phase);
+      return null;
+    };
+
+    for (const phase of phases) {
+      const cycle = visit(phase);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  }
+
   /**
    * Validate fallback agent configuration
    */
@@ -118,60 +231,6 @@ export class PolicyCapabilityValidator {
     return errors;
   }
 
-  /**
-   * Get fallback agent for a capability following cascading hierarchy
-   */
-  private getFallbackAgent(
-    capability: string,
-    policy: any,
-    phase: any
-  ): { id: string; name: string } | null {
-    const config = this.config;
-
-    if (!config.fallback?.enabled) {
-      return null;
-    }
-
-    if (phase?.fallback_agent) {
-      const agent = this.agentRegistry.getAgent(phase.fallback_agent);
-      if (agent && agent.active !== false) {
-        return { id: agent.id, name: agent.name };
-      }
-    }
-
-    if (phase?.fallback_enabled === false) {
-      return null;
-    }
-
-    if (policy?.fallback_mappings?.[capability]) {
-      const agent = this.agentRegistry.getAgent(policy.fallback_mappings[capability]);
-      if (agent && agent.active !== false) {
-        return { id: agent.id, name: agent.name };
-      }
-    }
-
-    if (policy?.fallback_enabled === false) {
-      return null;
-    }
-
-    if (config.fallback?.mappings?.[capability]) {
-      const agent = this.agentRegistry.getAgent(config.fallback.mappings[capability]);
-      if (agent && agent.active !== false) {
-        return { id: agent.id, name: agent.name };
-      }
-    }
-
-    const fallbackAgentId = policy?.fallback_agent || config.fallback?.default_agent;
-    if (fallbackAgentId) {
-      const agent = this.agentRegistry.getAgent(fallbackAgentId);
-      if (agent && agent.active !== false) {
-        return { id: agent.id, name: agent.name };
-      }
-    }
-
-    return null;
-  }
-
   /**
    * Get capabilities using fallback
    */
@@ -183,7 +242,7 @@ export class PolicyCapabilityValidator {
       const policy = this.policyEngine.getPolicy(policyName);
       if (!policy) continue;
 
-      for (const phase of policy.phases) {
+      for (const phase of this.policyEngine.getRunnablePhases(policyName)) {
         if (!phase.capabilities) continue;
 
         for (const capability of phase.capabilities) {
@@ -191,13 +250,13 @@ export class PolicyCapabilityValidator {
           const activeAgents = agentsWithCapability.filter(a => a.active !== false);
 
           if (activeAgents.length === 0) {
-            const fallbackAgent = this.getFallbackAgent(capability, policy, phase);
-            if (fallbackAgent) {
+            const fallback = this.agentRegistry.resolveFallbackAgent(capability, policy, phase);
+            if (fallback) {
               fallbackUsages.push({
                 capability,
                 policyName,
                 phaseName: phase.name,
-                fallbackAgent: fallbackAgent.name
+                fallbackAgent: fallback.agent.name
               });
             }
           }
@@ -252,11 +311,12 @@ export class PolicyCapabilityValidator {
 
     if (agentsWithCapability.length === 0) {
       const policy = this.policyEngine.getPolicy(policyName);
-      const phase = policy?.phases.find(p => p.name === phaseName);
+      const phase = this.policyEngine.getPhaseConfig(policyName, phaseName) || undefined;
 
-      const fallbackAgent = this.getFallbackAgent(capability, policy, phase);
+      // Runs use the same hierarchy when no agent matches
+      const fallback = this.agentRegistry.resolveFallbackAgent(capability, policy, phase);
 
-      if (!fallbackAgent) {
+      if (!fallback) {
         errors.push({
           type: 'capability',
           severity: 'error',
@@ -265,7 +325,7 @@ export class PolicyCapabilityValidator {
           suggestion: 'Add this capability to an agent, configure fallback, or remove from policy'
         });
       } else {
-        const fallbackErrors = this.validateFallbackAgent(fallbackAgent.id, policyName, phaseName);
+        const fallbackErrors = this.validateFallbackAgent(fallback.agent.id, policyName, phaseName);
         if (fallbackErrors.length > 0) {
           errors.push(...fallbackErrors);
         }
@@ -302,7 +362,7 @@ export class PolicyCapabilityValidator {
       const policy = this.policyEngine.getPolicy(policyName);
       if (!policy) continue;
 
-      for (const phase of policy.phases) {
+      for (const phase of this.policyEngine.getRunnablePhases(policyName)) {
         if (!phase.capabilities || phase.capabilities.length === 0) continue;
 
         const availableAgents = phase.capabilities.flatMap(capability =>
@@ -366,7 +426,7 @@ export class PolicyCapabilityValidator {
       const policy = this.policyEngine.getPolicy(policyName);
       if (!policy) continue;
 
-      const hasValidPath = policy.phases.every(phase => {
+      const hasValidPath = this.policyEngine.getRunnablePhases(policyName).every(phase => {
         if (!phase.capabilities || phase.capabilities.length === 0) return false;
 
         return phase.capabilities.every(capability => {
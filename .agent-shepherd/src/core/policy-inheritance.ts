@@ -0,0 +1,183 @@
+/**
+ * Policy Inheritance
+ * Resolves `extends`, phase changes and named phase definitions into standalone policies
+ */
+
+import type { PhaseChange, PhaseConfig, PoliciesFile, PolicyConfig } from "./policy";
+
+const PHASE_CHANGE_OPERATIONS = [
+  "remove",
+  "replace",
+  "update",
+  "insert_before",
+  "insert_after",
+] as const;
+
+/**
+ * Resolve every policy of a policies file. A policy that extends another
+ * is deep-merged over its resolved parent (objects merge, arrays and
+ * values replace), then its phase changes are applied in order. Phases
+ * that `use` a named definition are expanded first, so phase changes and
+ * transitions can refer to them by name.
+ */
+export function resolvePolicies(file: PoliciesFile): Record<string, PolicyConfig> {
+  const definitions = file.phase_definitions || {};
+  for (const [name, definition] of Object.entries(definitions)) {
+    if (definition.use !== undefined) {
+      throw new Error(`Phase definition '${name}' cannot use another definition`);
+    }
+  }
+
+  const resolved: Record<string, PolicyConfig> = {};
+
+  const resolve = (name: string, chain: string[]): PolicyConfig => {
+    if (resolved[name]) {
+      return resolved[name];
+    }
+    if (chain.includes(name)) {
+      throw new Error(`Policy inheritance cycle: ${[...chain, name].join(" -> ")}`);
+    }
+
+    const { phase_changes, ...policy } = file.policies[name];
+    let result: PolicyConfig = policy;
+    if (policy.extends !== undefined) {
+      if (!file.policies[policy.extends]) {
+        throw new Error(`Policy '${name}' extends unknown policy '${policy.extends}'`);
+      }
+      result = deepMerge(resolve(policy.extends, [...chain, name]), policy);
+    }
+
+    let phases = (result.phases || []).map((phase) =>
+      resolvePhase(phase, definitions, name)
+    );
+    for (const change of phase_changes || []) {
+      phases = applyPhaseChange(phases, change, definitions, name);
+    }
+
+    resolved[name] = { ...result, phases };
+    return resolved[name];
+  };
+
+  for (const name of Object.keys(file.policies)) {
+    resolve(name, []);
+  }
+  return resolved;
+}
+
+/**
+ * Expand a phase that uses a named definition; its own fields are merged
+ * over the definition, and its name defaults to the definition's
+ */
+function resolvePhase(
+  phase: PhaseConfig,
+  definitions: NonNullable<PoliciesFile["phase_definitions"]>,
+  policyName: string
+): PhaseConfig {
+  let result = phase;
+  if (phase.use !== undefined) {
+    const definition = definitions[phase.use];
+    if (!definition) {
+      throw new Error(
+        `Policy '${policyName}' uses unknown phase definition '${phase.use}'`
+      );
+    }
+    const { use, ...overrides } = phase;
+    result = deepMerge({ name: use, ...definition } as PhaseConfig, overrides);
+  }
+
+  if (result.parallel) {
+    result = {
+      ...result,
+      parallel: result.parallel.map((member) =>
+        resolvePhase(member, definitions, policyName)
+      ),
+    };
+  }
+  return result;
+}
+
+/**
+ * Apply one phase change to a resolved phase list
+ */
+function applyPhaseChange(
+  phases: PhaseConfig[],
+  change: PhaseChange,
+  definitions: NonNullable<PoliciesFile["phase_definitions"]>,
+  policyName: string
+): PhaseConfig[] {
+  const operations = PHASE_CHANGE_OPERATIONS.filter((op) => change[op] !== undefined);
+  if (operations.length !== 1) {
+    throw new Error(
+      `Policy '${policyName}' has a phase change that must set exactly one of: ${PHASE_CHANGE_OPERATIONS.join(", ")}`
+    );
+  }
+
+  const operation = operations[0];
+  const target = change[operation]!;
+  const index = phases.findIndex((phase) => phase.name === target);
+  if (index === -1) {
+    throw new Error(
+      `Policy '${policyName}' cannot ${operation} phase '${target}': no such phase`
+    );
+  }
+
+  const next = [...phases];
+  if (operation === "remove") {
+    next.splice(index, 1);
+    return next;
+  }
+
+  if (!change.phase) {
+    throw new Error(
+      `Policy '${policyName}' phase change '${operation}: ${target}' is missing its phase`
+    );
+  }
+
+  if (operation === "update") {
+    next[index] = deepMerge(phases[index], change.phase);
+    return next;
+  }
+
+  const phase = resolvePhase(change.phase, definitions, policyName);
+  if (!phase.name) {
+    throw new Error(
+      `Policy '${policyName}' phase change '${operation}: ${target}' has a phase without a name`
+    );
+  }
+
+  switch (operation) {
+    case "replace":
+      next[index] = phase;
+      break;
+    case "insert_before":
+      next.splice(index, 0, phase);
+      break;
+    case "insert_after":
+      next.splice(index + 1, 0, phase);
+      break;
+  }
+  return next;
+}
+
+/**
+ * Merge an override into a base object: nested objects merge recursively,
+ * while arrays and plain values in the override replace the base's
+ */
+export function deepMerge<T extends object>(base: T, override: Partial<T>): T {
+  const result: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    const current = result[key];
+    result[key] =
+      isPlainObject(current) && isPlainObject(value)
+        ? deepMerge(current, value)
+        : value;
+  }
+
+  return result as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,220 @@
+/**
+ * Policy Migration
+ * Identifies policy versions by content and moves in-flight workflows onto changed policies
+ */
+
+import { createHash } from "crypto";
+import type { PolicyConfig, PolicyEngine } from "./policy";
+import type { WorkflowState } from "./logging";
+
+export type MigrationStrategy = "continue" | "map" | "restart";
+
+export interface PolicyMigrationConfig {
+  strategy: MigrationStrategy;
+  phase_map?: Record<string, string>;  // Old phase name -> new phase name
+}
+
+export const DEFAULT_MIGRATION_CONFIG: PolicyMigrationConfig = { strategy: "map" };
+
+/**
+ * What happens to an in-flight workflow when its policy changed:
+ * - none: the policy is unchanged
+ * - continue: finish the workflow on the version it started with
+ * - map: resume the loaded version at the (possibly renamed) phase
+ * - restart: start over at the first phase of the loaded version
+ * - block: the phase cannot be placed, so a human has to decide
+ */
+export interface MigrationPlan {
+  action: "none" | "continue" | "map" | "restart" | "block";
+  from_phase: string;
+  to_phase?: string;
+  reason: string;
+}
+
+export interface AffectedWorkflow {
+  issue_id: string;
+  policy_name: string;
+  from_hash: string;
+  to_hash: string | null;  // null when the policy was removed
+  plan: MigrationPlan;
+}
+
+export interface PolicyDiff {
+  added: string[];    // Phases only in the new version
+  removed: string[];  // Phases only in the old version
+  changed: string[];  // Phases in both whose configuration differs
+}
+
+// Long enough to never collide between versions of one policy
+const POLICY_HASH_LENGTH = 12;
+
+/**
+ * Content hash of a resolved policy. Keys are sorted so that reordering
+ * a YAML mapping does not change the hash; the migration settings are
+ * left out, since they say how to leave a version rather than define it.
+ */
+export function hashPolicy(policy: PolicyConfig): string {
+  const definition: Partial<PolicyConfig> = { ...policy };
+  delete definition.migration;
+  return createHash("sha256")
+    .update(stableStringify(definition))
+    .digest("hex")
+    .slice(0, POLICY_HASH_LENGTH);
+}
+
+/**
+ * Compare the top-level phases of two versions of a policy
+ */
+export function diffPolicies(before: PolicyConfig, after: PolicyConfig): PolicyDiff {
+  const oldPhases = new Map(before.phases.map((phase) => [phase.name, phase]));
+  const newPhases = new Map(after.phases.map((phase) => [phase.name, phase]));
+
+  return {
+    added: [...newPhases.keys()].filter((name) => !oldPhases.has(name)),
+    removed: [...oldPhases.keys()].filter((name) => !newPhases.has(name)),
+    changed: [...newPhases.keys()].filter(
+      (name) =>
+        oldPhases.has(name) &&
+        stableStringify(oldPhases.get(name)) !== stableStringify(newPhases.get(name))
+    ),
+  };
+}
+
+/**
+ * Plan how a workflow started on one version of a policy continues on
+ * the loaded version. Without the stored old version a workflow can only
+ * be mapped or restarted, and when `map` cannot place a phase the
+ * workflow continues on its old version if that is known.
+ */
+export function planMigration(
+  policies: PolicyEngine,
+  policyName: string,
+  currentPhase: string,
+  previousHash: string | undefined,
+  previous: PolicyConfig | null
+): MigrationPlan {
+  const policy = policies.getPolicy(policyName);
+  if (!policy || !previousHash || previousHash === hashPolicy(policy)) {
+    return { action: "none", from_phase: currentPhase, reason: "Policy unchanged" };
+  }
+
+  const changed = `Policy '${policyName}' changed (${previousHash} -> ${hashPolicy(policy)})`;
+  const migration = policy.migration || DEFAULT_MIGRATION_CONFIG;
+
+  if (migration.strategy === "continue" && previous) {
+    return {
+      action: "continue",
+      from_phase: currentPhase,
+      to_phase: currentPhase,
+      reason: `${changed}; continuing on version ${previousHash}`,
+    };
+  }
+
+  if (migration.strategy === "restart") {
+    const first = policy.phases[0].name;
+    return {
+      action: "restart",
+      from_phase: currentPhase,
+      to_phase: first,
+      reason: `${changed}; restarting at '${first}'`,
+    };
+  }
+
+  // Members of a parallel group resume through their group
+  const target = migration.phase_map?.[currentPhase] ?? currentPhase;
+  const phase =
+    policy.phases.find((candidate) => candidate.name === target) ||
+    policies.getPhaseGroup(policyName, target);
+  if (phase) {
+    return {
+      action: "map",
+      from_phase: currentPhase,
+      to_phase: phase.name,
+      reason:
+        phase.name === currentPhase
+          ? `${changed}; resuming at '${currentPhase}'`
+          : `${changed}; phase '${currentPhase}' maps to '${phase.name}'`,
+    };
+  }
+
+  if (previous) {
+    return {
+      action: "continue",
+      from_phase: currentPhase,
+      to_phase: currentPhase,
+      reason: `${changed}; phase '${currentPhase}' no longer exists, continuing on version ${previousHash}`,
+    };
+  }
+
+  return {
+    action: "block",
+    from_phase: currentPhase,
+    reason: `${changed}; phase '${currentPhase}' no longer exists and has no phase_map entry`,
+  };
+}
+
+/**
+ * Find the in-flight workflows that a set of policies would move to a
+ * different version, with the plan each of them would follow
+ */
+export function findAffectedWorkflows(
+  workflows: WorkflowState[],
+  policies: PolicyEngine,
+  // eslint-disable-next-line no-unused-vars
+  getVersion: (hash: string) => PolicyConfig | null
+): AffectedWorkflow[] {
+  const affected: AffectedWorkflow[] = [];
+
+  for (const workflow of workflows) {
+    if (workflow.status === "completed" || !workflow.policy_hash) {
+      continue;
+    }
+
+    const toHash = policies.getPolicyHash(workflow.policy_name);
+    if (toHash === workflow.policy_hash) {
+      continue;
+    }
+
+    // A workflow whose policy is gone is replaced by a new workflow
+    const plan: MigrationPlan = toHash
+      ? planMigration(
+          policies,
+          workflow.policy_name,
+          workflow.current_phase,
+          workflow.policy_hash,
+          getVersion(workflow.policy_hash)
+        )
+      : {
+          action: "restart",
+          from_phase: workflow.current_phase,
+          reason: `Policy '${workflow.policy_name}' was removed; the issue starts a new workflow`,
+        };
+
+    affected.push({
+      issue_id: workflow.issue_id,
+      policy_name: workflow.policy_name,
+      from_hash: workflow.policy_hash,
+      to_hash: toHash,
+      plan,
+    });
+  }
+
+  return affected;
+}
+
+/**
+ * JSON with object keys sorted at every level
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,242 @@
+/**
+ * Policy Simulator
+ * Walks a policy's transitions with scripted outcomes on a virtual clock
+ */
+
+import type { PhaseTransition, PolicyEngine } from "./policy";
+
+/**
+ * A scripted event:
+ * - success / fail: the result of the current phase's run (a parallel
+ *   group's joined result)
+ * - approve / reject: a reviewer's decision on a result awaiting approval
+ * - unblock: a human unblocks a blocked workflow, which retries its
+ *   current phase with fresh attempts
+ */
+export type SimulatedOutcome = "success" | "fail" | "approve" | "reject" | "unblock";
+
+export const SIMULATED_OUTCOMES: SimulatedOutcome[] = [
+  "success",
+  "fail",
+  "approve",
+  "reject",
+  "unblock",
+];
+
+export interface SimulationStep {
+  step: number;
+  time_ms: number;      // Virtual time at which the outcome happened
+  phase: string;
+  attempt: number;      // Attempt of the phase within its attempt window
+  outcome: SimulatedOutcome;
+  transition: PhaseTransition["type"];
+  next_phase?: string;
+  retry_delay_ms?: number;
+  loop?: boolean;
+  reason?: string;
+}
+
+export interface SimulationResult {
+  policy: string;
+  outcomes: SimulatedOutcome[];
+  steps: SimulationStep[];
+  path: string[];       // Phases in the order they were entered
+  final: {
+    status: "active" | "blocked" | "completed";
+    phase: string;
+    time_ms: number;
+    reason?: string;
+    loop_counts: Record<string, number>;
+  };
+}
+
+/**
+ * Parse a comma-separated outcome script such as "success,fail,approve"
+ */
+export function parseOutcomes(script: string): SimulatedOutcome[] {
+  return script
+    .split(",")
+    .map((token) => token.trim().toLowerCase())
+    .filter((token) => token.length > 0)
+    .map((token) => {
+      if (!SIMULATED_OUTCOMES.includes(token as SimulatedOutcome)) {
+        throw new Error(
+          `Unknown outcome '${token}' (expected one of: ${SIMULATED_OUTCOMES.join(", ")})`
+        );
+      }
+      return token as SimulatedOutcome;
+    });
+}
+
+/**
+ * Run a policy with scripted outcomes. Transitions, retry delays and loop
+ * limits come from the policy engine, and state is carried between steps
+ * the way the worker persists workflow state. The virtual clock starts at
+ * zero, runs take no time and a retry waits out its backoff delay.
+ */
+export function simulatePolicy(
+  policies: PolicyEngine,
+  policyName: string,
+  outcomes: SimulatedOutcome[]
+): SimulationResult {
+  const sequence = policies.getPhaseSequence(policyName);
+  if (sequence.length === 0) {
+    throw new Error(`Policy '${policyName}' not found`);
+  }
+
+  let phase = sequence[0];
+  let status: SimulationResult["final"]["status"] = "active";
+  let reason: string | undefined;
+  let clock = 0;
+  let failures = 0;  // Failed attempts in the current attempt window
+  let pending: { success: boolean } | null = null;  // Result awaiting approval
+  const loopCounts: Record<string, number> = {};
+  const path = [phase];
+  const steps: SimulationStep[] = [];
+
+  outcomes.forEach((outcome, index) => {
+    const location = `Outcome ${index + 1} '${outcome}'`;
+    if (status === "completed") {
+      throw new Error(`${location}: the workflow already completed`);
+    }
+
+    let transition: PhaseTransition;
+    if (outcome === "unblock") {
+      if (status !== "blocked") {
+        throw new Error(`${location}: the workflow is not blocked`);
+      }
+      transition = { type: "retry", reason: "Unblocked by a human", retry_delay_ms: 0 };
+      failures = 0;
+    } else if (outcome === "approve" || outcome === "reject") {
+      if (!pending) {
+        throw new Error(`${location}: no result is awaiting approval`);
+      }
+      transition = policies.determineTransition(policyName, phase, {
+        success: pending.success,
+        retry_count: failures,
+        approved: outcome === "approve",
+        approval_rejected: outcome === "reject",
+        loop_count: loopCounts[phase] || 0,
+      });
+    } else {
+      if (status === "blocked") {
+        throw new Error(
+          `${location}: the workflow is blocked (${reason}); script approve, reject or unblock first`
+        );
+      }
+      transition = policies.determineTransition(policyName, phase, {
+        success: outcome === "success",
+        retry_count: failures,
+        loop_count: loopCounts[phase] || 0,
+      });
+    }
+
+    steps.push({
+      step: index + 1,
+      time_ms: clock,
+      phase,
+      attempt: failures + 1,
+      outcome,
+      transition: transition.type,
+      next_phase: transition.next_phase,
+      retry_delay_ms: transition.type === "retry" ? transition.retry_delay_ms : undefined,
+      loop: transition.loop,
+      reason: transition.reason,
+    });
+
+    const ran = outcome === "success" || outcome === "fail";
+    pending = null;
+    reason = transition.reason;
+
+    switch (transition.type) {
+      case "advance":
+        if (transition.loop) {
+          loopCounts[phase] = (loopCounts[phase] || 0) + 1;
+        }
+        phase = transition.next_phase || phase;
+        path.push(phase);
+        failures = 0;
+        status = "active";
+        break;
+
+      case "retry":
+        // Only failed results are retried; an unblock starts a fresh window
+        if (outcome !== "unblock") {
+          failures++;
+        }
+        clock += transition.retry_delay_ms || 0;
+        status = "active";
+        break;
+
+      case "block":
+        // Simulated runs never ask for approval themselves, so a run
+        // blocks for approval exactly when its phase requires it
+        if (ran && policies.getPhaseConfig(policyName, phase)?.require_approval) {
+          pending = { success: outcome === "success" };
+        }
+        status = "blocked";
+        break;
+
+      case "close":
+        status = "completed";
+        break;
+    }
+  });
+
+  return {
+    policy: policyName,
+    outcomes,
+    steps,
+    path,
+    final: { status, phase, time_ms: clock, reason, loop_counts: loopCounts },
+  };
+}
+
+/**
+ * Render a simulation as a plain-text table followed by its path and
+ * final state
+ */
+export function formatSimulationTable(result: SimulationResult): string {
+  const header = ["#", "Time", "Phase", "Attempt", "Outcome", "Transition", "Next", "Delay", "Reason"];
+  const rows = result.steps.map((step) => [
+    String(step.step),
+    formatDuration(step.time_ms),
+    step.phase,
+    String(step.attempt),
+    step.outcome,
+    step.loop ? `${step.transition} (loop)` : step.transition,
+    step.next_phase || "-",
+    step.retry_delay_ms !== undefined ? formatDuration(step.retry_delay_ms) : "-",
+    step.reason || "",
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+
+  const { final } = result;
+  const state =
+    final.status === "completed"
+      ? `completed after '${final.phase}'`
+      : `${final.status} at '${final.phase}'`;
+
+  return [
+    `Policy: ${result.policy}`,
+    "",
+    line(header),
+    line(widths.map((width) => "-".repeat(width))),
+    ...rows.map(line),
+    "",
+    `Path: ${result.path.join(" -> ")}`,
+    `Final: ${state} at ${formatDuration(final.time_ms)}${final.reason ? ` (${final.reason})` : ""}`,
+  ].join("\n");
+}
+
+/**
+ * Format virtual time, in whole milliseconds below a second
+ */
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${ms / 1000}s`;
+}
@@ -50,7 +50,7 @@ export class PolicyTreeVisualizer {
       };
 
       // Add phases
-      for (const phase of policy.phases) {
+      for (const phase of this.policyEngine.getRunnablePhases(policyName)) {
         const phaseNode: TreeNode = {
           id: `phase-${policyName}-${phase.name}`,
           name: phase.name,
@@ -303,7 +303,7 @@ export class PolicyTreeVisualizer {
     let hasWarnings = false;
     let hasErrors = false;
 
-    for (const phase of policy.phases) {
+    for (const phase of this.policyEngine.getRunnablePhases(policyName)) {
       const phaseStatus = this.getPhaseStatus(phase);
       if (phaseStatus === 'error') hasErrors = true;
       else if (phaseStatus === 'warning') hasWarnings = true;
@@ -6,17 +6,33 @@
 import { parse as parseYAML } from "yaml";
 import { readFileSync } from "fs";
 import { getConfigPath } from "./path-utils";
+import type { BeadsIssue } from "./beads";
+import type { GateConfig } from "./gates";
+import { DEFAULT_HANDOFF_CONFIG, type HandoffConfig } from "./handoff";
+import { resolvePolicies } from "./policy-inheritance";
+import { hashPolicy, type PolicyMigrationConfig } from "./policy-migration";
 
 export interface PhaseConfig {
   name: string;
+  use?: string;  // Named phase definition this phase is based on
   description?: string;
   capabilities?: string[];
   agent?: string;  // Specific agent to use for this phase
   model?: string;  // Model override in format "provider/model"
+  prompt_template?: string;  // Inline template or .md file in the prompts directory
   timeout_multiplier?: number;
   require_approval?: boolean;
+  approvers?: string[];  // Users who may decide on approvals (default: anyone)
   fallback_agent?: string;
   fallback_enabled?: boolean;
+  gates?: GateConfig[];  // Verification commands run before advancing
+  on_success?: string;   // Phase to go to on success (default: next phase)
+  on_failure?: string;   // Phase to go to on failure instead of retrying
+  on_approval_rejected?: string;  // Phase to go to when a reviewer rejects the result
+  max_loops?: number;    // Limit on backward jumps out of this phase
+  handoff?: HandoffConfig;  // Overrides the policy's handoff settings
+  parallel?: PhaseConfig[];  // Member phases run concurrently as a group
+  quorum?: number;       // Members that must succeed (default: all)
 }
 
 export interface RetryConfig {
@@ -29,6 +45,8 @@ export interface RetryConfig {
 export interface PolicyConfig {
   name: string;
   description?: string;
+  extends?: string;  // Parent policy, deep-merged under this one
+  phase_changes?: PhaseChange[];  // Edits to the inherited phases, applied in order
   phases: PhaseConfig[];
   retry?: RetryConfig;
   timeout_base_ms?: number;
@@ -37,12 +55,54 @@ export interface PolicyConfig {
   fallback_enabled?: boolean;
   fallback_agent?: string;
   fallback_mappings?: Record<string, string>;
+  handoff?: HandoffConfig;  // Digest of earlier phases passed to each phase
+  migration?: PolicyMigrationConfig;  // How in-flight workflows move onto a changed version
+}
+
+/**
+ * Edit to the phase list of an extended policy. Exactly one operation
+ * names the phase it applies to.
+ */
+export interface PhaseChange {
+  remove?: string;
+  replace?: string;
+  update?: string;        // Deep-merges `phase` into the named phase
+  insert_before?: string;
+  insert_after?: string;
+  phase?: PhaseConfig;
+}
+
+export interface PolicyRuleMatch {
+  issue_type?: string | string[];
+  priority?: {
+    min?: number;
+    max?: number;
+  };
+  title?: string;        // Regular expression tested against the issue title
+  description?: string;  // Regular expression tested against the issue description
+  labels?: string[];     // Matches if the issue has any of these Beads labels
+}
+
+export interface PolicyRule {
+  name: string;
+  policy: string;
+  match: PolicyRuleMatch;
+}
+
+export interface PolicySelection {
+  policy: string;
+  rule?: string;
+  reason: string;
 }
 
 export interface PoliciesFile {
   policies: {
     [key: string]: PolicyConfig;
   };
+  phase_definitions?: {
+    [key: string]: Partial<PhaseConfig>;  // Reusable phases, referenced with `use`
+  };
+  policy_rules?: PolicyRule[];
   default_policy?: string;
 }
 
@@ -50,17 +110,28 @@ export type PhaseTransition = {
   type: "advance" | "retry" | "block" | "close";
   next_phase?: string;
   reason?: string;
+  retry_delay_ms?: number;  // Backoff before the retry may run
+  loop?: boolean;           // Jumps back to an earlier (or the same) phase
 };
 
+export interface PhaseTargets {
+  success: string | null;  // null closes the workflow
+  failure?: string;
+  approval_rejected?: string;
+}
+
 /**
  * Policy Engine for managing workflow phases and transitions
  */
 export class PolicyEngine {
   private policies: Map<string, PolicyConfig>;
+  private rules: PolicyRule[];
   private defaultPolicy: string;
+  private version = 0;
 
   constructor(configPath?: string) {
     this.policies = new Map();
+    this.rules = [];
     this.defaultPolicy = "default";
     
     if (configPath) {
@@ -69,7 +140,8 @@ export class PolicyEngine {
   }
 
   /**
-   * Load policies from YAML file
+   * Load policies from YAML file. Everything is validated before the
+   * loaded policies are replaced, so a failed (re)load changes nothing.
    */
   loadPolicies(filePath: string): void {
     try {
@@ -80,24 +152,31 @@ export class PolicyEngine {
         throw new Error("Invalid policies file: missing 'policies' key");
       }
 
-      // Clear existing policies
-      this.policies.clear();
-
-      // Load all policies
-      for (const [name, policy] of Object.entries(config.policies)) {
+      // Load all policies, with inheritance and phase definitions resolved
+      const policies = new Map<string, PolicyConfig>();
+      for (const [name, policy] of Object.entries(resolvePolicies(config))) {
         this.validatePolicy(name, policy);
-        this.policies.set(name, policy);
+        policies.set(name, policy);
+      }
+
+      // Load policy selection rules (evaluated in file order)
+      const rules = config.policy_rules || [];
+      for (const rule of rules) {
+        this.validateRule(rule, policies);
       }
 
       // Set default policy
-      if (config.default_policy) {
-        if (!this.policies.has(config.default_policy)) {
-          throw new Error(
-            `Default policy '${config.default_policy}' not found`
-          );
-        }
-        this.defaultPolicy = config.default_policy;
+      const defaultPolicy = config.default_policy || "default";
+      if (config.default_policy && !policies.has(config.default_policy)) {
+        throw new Error(
+          `Default policy '${config.default_policy}' not found`
+        );
       }
+
+      this.policies = policies;
+      this.rules = rules;
+      this.defaultPolicy = defaultPolicy;
+      this.version++;
     } catch (error) {
       throw new Error(
         `Failed to load policies from ${filePath}: ${error instanceof Error ? error.message : String(error)}`
@@ -105,6 +184,47 @@ export class PolicyEngine {
     }
   }
 
+  /**
+   * Get the number of times policies have been loaded, which identifies
+   * the loaded version within this process
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Freeze the currently loaded policies. Reloads replace the engine's
+   * policies wholesale, so a snapshot keeps answering from the version
+   * it was taken from.
+   */
+  snapshot(): PolicyEngine {
+    const snapshot = new PolicyEngine();
+    snapshot.policies = this.policies;
+    snapshot.rules = this.rules;
+    snapshot.defaultPolicy = this.defaultPolicy;
+    snapshot.version = this.version;
+    return snapshot;
+  }
+
+  /**
+   * Snapshot in which one policy is replaced by another version of it,
+   * so a workflow can finish on the version it started with
+   */
+  withPolicy(name: string, policy: PolicyConfig): PolicyEngine {
+    const snapshot = this.snapshot();
+    snapshot.policies = new Map(this.policies).set(name, policy);
+    return snapshot;
+  }
+
+  /**
+   * Get the content hash of a loaded policy, which identifies its version
+   * across processes and restarts
+   */
+  getPolicyHash(name: string): string | null {
+    const policy = this.getPolicy(name);
+    return policy ? hashPolicy(policy) : null;
+  }
+
   /**
    * Validate policy configuration
    */
@@ -113,11 +233,209 @@ export class PolicyEngine {
       throw new Error(`Policy '${name}' must have at least one phase`);
     }
 
+    // Inherited retry settings may be partial, so check the merged result
+    if (policy.retry && (!policy.retry.max_attempts || !policy.retry.backoff_strategy)) {
+      throw new Error(`Policy '${name}' retry must set max_attempts and backoff_strategy`);
+    }
+
+    const phaseNames = new Set(policy.phases.map((phase) => phase.name));
+    const allNames = new Set<string>();
     for (const phase of policy.phases) {
       if (!phase.name) {
         throw new Error(`Policy '${name}' has a phase without a name`);
       }
+      if (allNames.has(phase.name)) {
+        throw new Error(`Policy '${name}' has more than one phase named '${phase.name}'`);
+      }
+      allNames.add(phase.name);
+
+      if (phase.parallel !== undefined) {
+        this.validatePhaseGroup(name, phase, allNames);
+      } else if (phase.quorum !== undefined) {
+        throw new Error(`Phase '${name}.${phase.name}' sets quorum but has no parallel members`);
+      }
+
+      for (const field of ["on_success", "on_failure", "on_approval_rejected"] as const) {
+        const target = phase[field];
+        if (target !== undefined && !phaseNames.has(target)) {
+          throw new Error(
+            `Phase '${name}.${phase.name}' has ${field} target '${target}' that is not a phase of the policy`
+          );
+        }
+      }
+
+      if (
+        phase.max_loops !== undefined &&
+        (!Number.isInteger(phase.max_loops) || phase.max_loops < 1)
+      ) {
+        throw new Error(`Phase '${name}.${phase.name}' max_loops must be a positive integer`);
+      }
+    }
+
+    for (const [from, to] of Object.entries(policy.migration?.phase_map || {})) {
+      if (!allNames.has(to)) {
+        throw new Error(
+          `Policy '${name}' migration maps '${from}' to '${to}', which is not a phase of the policy`
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate the members of a parallel phase group. Members only run
+   * agents; transitions belong to the group itself.
+   */
+  private validatePhaseGroup(
+    policyName: string,
+    group: PhaseConfig,
+    allNames: Set<string>
+  ): void {
+    const location = `Phase '${policyName}.${group.name}'`;
+    const members = group.parallel || [];
+    if (members.length < 2) {
+      throw new Error(`${location} must have at least two parallel members`);
+    }
+
+    for (const member of members) {
+      if (!member.name) {
+        throw new Error(`${location} has a parallel member without a name`);
+      }
+      if (allNames.has(member.name)) {
+        throw new Error(`Policy '${policyName}' has more than one phase named '${member.name}'`);
+      }
+      allNames.add(member.name);
+
+      for (const field of ["parallel", "on_success", "on_failure", "on_approval_rejected", "max_loops"] as const) {
+        if (member[field] !== undefined) {
+          throw new Error(
+            `Parallel member '${policyName}.${group.name}.${member.name}' cannot set ${field}`
+          );
+        }
+      }
+    }
+
+    if (
+      group.quorum !== undefined &&
+      (!Number.isInteger(group.quorum) || group.quorum < 1 || group.quorum > members.length)
+    ) {
+      throw new Error(`${location} quorum must be an integer between 1 and ${members.length}`);
+    }
+  }
+
+  /**
+   * Validate a policy selection rule
+   */
+  private validateRule(rule: PolicyRule, policies: Map<string, PolicyConfig>): void {
+    if (!rule.name) {
+      throw new Error("Policy rule must have a name");
+    }
+    if (!policies.has(rule.policy)) {
+      throw new Error(
+        `Policy rule '${rule.name}' references unknown policy '${rule.policy}'`
+      );
+    }
+    if (!rule.match) {
+      throw new Error(`Policy rule '${rule.name}' must have a 'match' section`);
+    }
+
+    for (const field of ["title", "description"] as const) {
+      const pattern = rule.match[field];
+      if (pattern === undefined) continue;
+      try {
+        new RegExp(pattern);
+      } catch (error) {
+        throw new Error(
+          `Policy rule '${rule.name}' has an invalid ${field} pattern: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Get policy selection rules
+   */
+  getPolicyRules(): PolicyRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Select a policy for an issue using the first matching rule,
+   * falling back to the default policy
+   */
+  selectPolicy(
+    issue: Pick<BeadsIssue, "title" | "description" | "priority" | "issue_type" | "labels">
+  ): PolicySelection {
+    for (const rule of this.rules) {
+      const reasons = this.matchRule(rule.match, issue);
+      if (reasons) {
+        return {
+          policy: rule.policy,
+          rule: rule.name,
+          reason: `Matched rule '${rule.name}': ${reasons.length > 0 ? reasons.join(", ") : "catch-all rule"}`,
+        };
+      }
     }
+
+    return {
+      policy: this.defaultPolicy,
+      reason: this.rules.length > 0
+        ? "No policy rule matched, using default policy"
+        : "No policy rules configured, using default policy",
+    };
+  }
+
+  /**
+   * Match an issue against rule conditions.
+   * Returns the list of matched conditions, or null if any condition fails.
+   */
+  private matchRule(
+    match: PolicyRuleMatch,
+    issue: Pick<BeadsIssue, "title" | "description" | "priority" | "issue_type" | "labels">
+  ): string[] | null {
+    const reasons: string[] = [];
+
+    if (match.issue_type !== undefined) {
+      const types = Array.isArray(match.issue_type)
+        ? match.issue_type
+        : [match.issue_type];
+      if (!types.includes(issue.issue_type)) {
+        return null;
+      }
+      reasons.push(`issue_type=${issue.issue_type}`);
+    }
+
+    if (match.priority) {
+      const { min, max } = match.priority;
+      if (min !== undefined && issue.priority < min) return null;
+      if (max !== undefined && issue.priority > max) return null;
+      reasons.push(`priority=P${issue.priority}`);
+    }
+
+    if (match.title !== undefined) {
+      if (!new RegExp(match.title, "i").test(issue.title || "")) {
+        return null;
+      }
+      reasons.push(`title~/${match.title}/`);
+    }
+
+    if (match.description !== undefined) {
+      if (!new RegExp(match.description, "i").test(issue.description || "")) {
+        return null;
+      }
+      reasons.push(`description~/${match.description}/`);
+    }
+
+    if (match.labels && match.labels.length > 0) {
+      const matched = match.labels.filter((label) =>
+        (issue.labels || []).includes(label)
+      );
+      if (matched.length === 0) {
+        return null;
+      }
+      reasons.push(`labels=${matched.join("|")}`);
+    }
+
+    return reasons;
   }
 
   /**
@@ -154,17 +472,57 @@ export class PolicyEngine {
   }
 
   /**
-   * Get phase configuration
+   * Get phase configuration, including members of parallel groups
    */
   getPhaseConfig(
     policyName: string,
     phaseName: string
   ): PhaseConfig | null {
+    return (
+      this.getRunnablePhases(policyName).find((p) => p.name === phaseName) ||
+      this.getPolicy(policyName)?.phases.find((p) => p.name === phaseName) ||
+      null
+    );
+  }
+
+  /**
+   * Get the phases that run agents, with parallel groups expanded
+   * into their members
+   */
+  getRunnablePhases(policyName: string): PhaseConfig[] {
     const policy = this.getPolicy(policyName);
     if (!policy) {
-      return null;
+      return [];
     }
-    return policy.phases.find((p) => p.name === phaseName) || null;
+    return policy.phases.flatMap((phase) => phase.parallel || [phase]);
+  }
+
+  /**
+   * Get the members of a parallel phase group (empty for other phases)
+   */
+  getGroupMembers(policyName: string, phaseName: string): PhaseConfig[] {
+    const phase = this.getPolicy(policyName)?.phases.find((p) => p.name === phaseName);
+    return phase?.parallel || [];
+  }
+
+  /**
+   * Get the number of members of a parallel group that must succeed
+   */
+  getGroupQuorum(policyName: string, phaseName: string): number {
+    const phase = this.getPolicy(policyName)?.phases.find((p) => p.name === phaseName);
+    return phase?.quorum ?? phase?.parallel?.length ?? 1;
+  }
+
+  /**
+   * Get the parallel group a member phase belongs to
+   */
+  getPhaseGroup(policyName: string, phaseName: string): PhaseConfig | null {
+    const policy = this.getPolicy(policyName);
+    return (
+      policy?.phases.find((phase) =>
+        phase.parallel?.some((member) => member.name === phaseName)
+      ) || null
+    );
   }
 
   /**
@@ -181,6 +539,28 @@ export class PolicyEngine {
     return sequence[currentIndex + 1];
   }
 
+  /**
+   * Get the phases a phase transitions to on each outcome
+   */
+  getPhaseTargets(policyName: string, phaseName: string): PhaseTargets {
+    const phaseConfig = this.getPhaseConfig(policyName, phaseName);
+
+    return {
+      success:
+        phaseConfig?.on_success || this.getNextPhase(policyName, phaseName),
+      failure: phaseConfig?.on_failure,
+      approval_rejected: phaseConfig?.on_approval_rejected,
+    };
+  }
+
+  /**
+   * Check whether moving between two phases goes back in the sequence
+   */
+  isLoopTransition(policyName: string, from: string, to: string): boolean {
+    const sequence = this.getPhaseSequence(policyName);
+    return sequence.indexOf(to) <= sequence.indexOf(from);
+  }
+
   /**
    * Determine phase transition based on run outcome
    */
@@ -191,6 +571,9 @@ export class PolicyEngine {
       success: boolean;
       retry_count?: number;
       requires_approval?: boolean;
+      approved?: boolean;   // A reviewer approved the result, lifting the approval gate
+      approval_rejected?: boolean;
+      loop_count?: number;  // Backward jumps already taken from this phase
     }
   ): PhaseTransition {
     const policy = this.getPolicy(policyName);
@@ -203,8 +586,20 @@ export class PolicyEngine {
       return { type: "block", reason: "Phase not found" };
     }
 
+    const targets = this.getPhaseTargets(policyName, currentPhase);
+    const jump = (target: string, reason: string): PhaseTransition =>
+      this.jumpTransition(policyName, phaseConfig, target, reason, outcome.loop_count);
+
+    // A reviewer rejected the phase's result
+    if (outcome.approval_rejected) {
+      if (targets.approval_rejected) {
+        return jump(targets.approval_rejected, "Approval rejected");
+      }
+      return { type: "block", reason: "Approval rejected" };
+    }
+
     // Check if approval is required
-    if (outcome.requires_approval || phaseConfig.require_approval) {
+    if (!outcome.approved && (outcome.requires_approval || phaseConfig.require_approval)) {
       return {
         type: "block",
         reason: "Human approval required",
@@ -213,13 +608,8 @@ export class PolicyEngine {
 
     // Handle success
     if (outcome.success) {
-      const nextPhase = this.getNextPhase(policyName, currentPhase);
-      if (nextPhase) {
-        return {
-          type: "advance",
-          next_phase: nextPhase,
-          reason: "Phase completed successfully",
-        };
+      if (targets.success) {
+        return jump(targets.success, "Phase completed successfully");
       } else {
         return {
           type: "close",
@@ -228,6 +618,11 @@ export class PolicyEngine {
       }
     }
 
+    // Failures with a declared target move on instead of retrying
+    if (targets.failure) {
+      return jump(targets.failure, "Phase failed");
+    }
+
     // Handle failure with retry logic
     const retryConfig = policy.retry || {
       max_attempts: 3,
@@ -240,6 +635,7 @@ export class PolicyEngine {
       return {
         type: "retry",
         reason: `Retry ${retryCount + 1}/${retryConfig.max_attempts}`,
+        retry_delay_ms: this.calculateRetryDelay(policyName, retryCount),
       };
     }
 
@@ -250,6 +646,37 @@ export class PolicyEngine {
     };
   }
 
+  /**
+   * Build the transition to a target phase, enforcing the source phase's
+   * loop limit when the target is not ahead of it
+   */
+  private jumpTransition(
+    policyName: string,
+    phaseConfig: PhaseConfig,
+    target: string,
+    reason: string,
+    loopCount: number = 0
+  ): PhaseTransition {
+    if (!this.isLoopTransition(policyName, phaseConfig.name, target)) {
+      return { type: "advance", next_phase: target, reason };
+    }
+
+    const maxLoops = phaseConfig.max_loops;
+    if (maxLoops !== undefined && loopCount >= maxLoops) {
+      return {
+        type: "block",
+        reason: `${reason}; loop limit reached (${maxLoops} returns to '${target}')`,
+      };
+    }
+
+    return {
+      type: "advance",
+      next_phase: target,
+      reason: `${reason}, returning to '${target}' (loop ${loopCount + 1}${maxLoops ? `/${maxLoops}` : ""})`,
+      loop: true,
+    };
+  }
+
   /**
    * Calculate retry delay based on policy
    */
@@ -307,9 +734,23 @@ export class PolicyEngine {
   /**
    * Get stall threshold for a policy
    */
-  getStallThreshold(policyName: string): number {
+  getStallThreshold(policyName: string, defaultMs: number = 60000): number {
     const policy = this.getPolicy(policyName);
-    return policy?.stall_threshold_ms || 60000; // Default 1 minute
+    return policy?.stall_threshold_ms || defaultMs; // Default 1 minute
+  }
+
+  /**
+   * Get the handoff settings for a phase (phase > policy > defaults)
+   */
+  getHandoffConfig(policyName: string, phaseName: string): Required<HandoffConfig> {
+    const policy = this.getPolicy(policyName);
+    const phaseConfig = this.getPhaseConfig(policyName, phaseName);
+
+    return {
+      ...DEFAULT_HANDOFF_CONFIG,
+      ...policy?.handoff,
+      ...phaseConfig?.handoff,
+    };
   }
 
   /**
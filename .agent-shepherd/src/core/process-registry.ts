@@ -0,0 +1,159 @@
+/**
+ * Process Registry
+ * Tracks the agent processes of in-flight runs so supervisors can inspect,
+ * abort or reattach to them
+ */
+
+import { hostname } from "os";
+import { getLogger, type Logger, type RunRecord } from "./logging.ts";
+import { killProcessTree } from "./process-utils.ts";
+
+export interface ProcessInfo {
+  run_id: string;
+  pid?: number;
+  host?: string;
+  started_at?: number;
+  last_output_at?: number;
+  local: boolean;  // Launched by this process
+  alive: boolean;
+}
+
+/**
+ * Registry of agent processes, backed by the run records and heartbeats
+ * shared between worker and monitor through the SQLite cache
+ */
+export class ProcessRegistry {
+  private logger: Logger;
+  private host = hostname();
+  private controllers = new Map<string, AbortController>();
+
+  constructor(logger?: Logger) {
+    this.logger = logger || getLogger();
+  }
+
+  /**
+   * Start tracking a run launched by this process.
+   * Returns the signal that aborts the run's agent process.
+   */
+  track(runId: string): AbortSignal {
+    const controller = new AbortController();
+    this.controllers.set(runId, controller);
+    return controller.signal;
+  }
+
+  /**
+   * Record the spawned agent process (CLI transport) or session (server
+   * transport) and move the run to running
+   */
+  register(runId: string, handle: { pid?: number; session_id?: string }): void {
+    const now = Date.now();
+
+    this.logger.updateRun(runId, {
+      status: "running",
+      started_at: now,
+      host: this.host,
+      ...handle,
+    });
+    this.logger.recordHeartbeat({ run_id: runId, pid: handle.pid, last_output_at: now });
+  }
+
+  /**
+   * Stop tracking a run whose agent process has exited
+   */
+  release(runId: string): void {
+    this.controllers.delete(runId);
+    this.logger.clearHeartbeat(runId);
+  }
+
+  /**
+   * Check whether a run's agent process is still alive.
+   * Processes on other hosts cannot be checked and are assumed alive;
+   * stall detection still catches them once their heartbeat goes stale.
+   */
+  isAlive(run: Pick<RunRecord, "pid" | "host">): boolean {
+    if (!run.pid) {
+      return false;
+    }
+
+    if (run.host && run.host !== this.host) {
+      return true;
+    }
+
+    try {
+      process.kill(run.pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM means the process exists but belongs to another user
+      return (error as NodeJS.ErrnoException).code === "EPERM";
+    }
+  }
+
+  /**
+   * Describe the agent process of a run
+   */
+  inspect(runId: string): ProcessInfo | null {
+    const run = this.logger.getRun(runId);
+    if (!run) {
+      return null;
+    }
+
+    return {
+      run_id: run.id,
+      pid: run.pid,
+      host: run.host,
+      started_at: run.started_at,
+      last_output_at: this.logger.getHeartbeat(runId)?.last_output_at,
+      local: this.controllers.has(runId),
+      alive: run.status === "running" && this.isAlive(run),
+    };
+  }
+
+  /**
+   * Abort a run's agent process.
+   * Returns false if there was no reachable process to stop.
+   */
+  abort(runId: string): boolean {
+    const controller = this.controllers.get(runId);
+    if (controller) {
+      controller.abort();
+      return true;
+    }
+
+    const run = this.logger.getRun(runId);
+    if (!run?.pid || (run.host && run.host !== this.host) || !this.isAlive(run)) {
+      return false;
+    }
+
+    killProcessTree(run.pid);
+    return true;
+  }
+
+  /**
+   * Wait for the agent process of a run launched elsewhere to exit
+   */
+  async reattach(runId: string, pollIntervalMs: number = 1000): Promise<void> {
+    const run = this.logger.getRun(runId);
+    if (!run) {
+      throw new Error(`Run ${runId} not found`);
+    }
+    if (run.host && run.host !== this.host) {
+      throw new Error(`Run ${runId} is running on another host (${run.host})`);
+    }
+
+    while (this.isAlive(run)) {
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+}
+
+/**
+ * Create a singleton Process Registry instance
+ */
+let defaultProcessRegistry: ProcessRegistry | null = null;
+
+export function getProcessRegistry(): ProcessRegistry {
+  if (!defaultProcessRegistry) {
+    defaultProcessRegistry = new ProcessRegistry();
+  }
+  return defaultProcessRegistry;
+}
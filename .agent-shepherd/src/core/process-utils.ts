@@ -0,0 +1,140 @@
+/**
+ * Process Utilities
+ * Helpers for supervising child processes spawned by Agent Shepherd
+ */
+
+// eslint-disable-next-line no-unused-vars
+type OutputListener = (chunk: string | null) => void;  // null marks the end
+
+/**
+ * Kill a process and all of its children.
+ * Expects the process to lead its own group (spawned with `detached: true`).
+ */
+export function killProcessTree(pid: number, signal: NodeJS.Signals = "SIGKILL"): void {
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // Not a group leader or already gone; fall back to the process itself
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Process already exited
+    }
+  }
+}
+
+/**
+ * Read a process output stream to completion
+ */
+export async function readStream(
+  stream: ReadableStream<Uint8Array>,
+  // eslint-disable-next-line no-unused-vars
+  onChunk?: (chunk: string) => void
+): Promise<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = decoder.decode(value, { stream: true });
+      text += chunk;
+      onChunk?.(chunk);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return text + decoder.decode();
+}
+
+/**
+ * Tracks in-flight runs of a runner so they can be aborted and their
+ * output streamed to any number of listeners
+ */
+export class RunTracker {
+  private runs = new Map<
+    string,
+    { controller: AbortController; listeners: Set<OutputListener> }
+  >();
+
+  /**
+   * Start tracking a run; the returned signal fires on abort or when the
+   * caller's own signal fires
+   */
+  start(runId: string, signal?: AbortSignal): AbortSignal {
+    const controller = new AbortController();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener("abort", () => controller.abort(), { once: true });
+    }
+
+    this.runs.set(runId, { controller, listeners: new Set() });
+    return controller.signal;
+  }
+
+  /**
+   * Forward a chunk of run output to stream listeners
+   */
+  emit(runId: string, chunk: string): void {
+    this.runs.get(runId)?.listeners.forEach((listener) => listener(chunk));
+  }
+
+  /**
+   * Stop tracking a run and end its streams
+   */
+  finish(runId: string): void {
+    this.runs.get(runId)?.listeners.forEach((listener) => listener(null));
+    this.runs.delete(runId);
+  }
+
+  /**
+   * Abort a tracked run. Returns false if the run is not in flight.
+   */
+  abort(runId: string): boolean {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return false;
+    }
+    run.controller.abort();
+    return true;
+  }
+
+  /**
+   * Stream the output of a run from now until it finishes
+   */
+  async *stream(runId: string): AsyncGenerator<string> {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return;
+    }
+
+    const queue: Array<string | null> = [];
+    let wake: (() => void) | null = null;
+    const listener: OutputListener = (chunk) => {
+      queue.push(chunk);
+      wake?.();
+    };
+    run.listeners.add(listener);
+
+    try {
+      while (true) {
+        if (queue.length === 0) {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = null;
+        }
+
+        const chunk = queue.shift()!;
+        if (chunk === null) {
+          return;
+        }
+        yield chunk;
+      }
+    } finally {
+      run.listeners.delete(listener);
+    }
+  }
+}
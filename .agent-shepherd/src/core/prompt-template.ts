@@ -0,0 +1,141 @@
+/**
+ * Prompt Templates
+ * Renders phase instructions from templates with variables and shared partials
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { isAbsolute, join } from "path";
+import { findPromptsDir } from "./path-utils";
+
+export interface PromptVariables {
+  [key: string]: string | number | PromptVariables | undefined;
+}
+
+// {{ name }} or {{ a.b.c }} for variables, {{> name }} for partials
+const TAG_PATTERN = /\{\{\s*(>?)\s*([\w.-]+)\s*\}\}/g;
+
+// Guards against partials that include each other
+const MAX_PARTIAL_DEPTH = 10;
+
+/**
+ * Built-in template used by phases without a prompt_template
+ */
+export const DEFAULT_PROMPT_TEMPLATE = `
+# Task: {{issue.title}}
+
+## Issue Details
+- ID: {{issue.id}}
+- Type: {{issue.type}}
+- Priority: P{{issue.priority}}
+- Status: {{issue.status}}
+
+## Description
+{{issue.description}}
+
+## Current Phase
+**{{phase.name}}** {{phase.description}}
+
+## Required Capabilities
+{{phase.capabilities}}
+
+{{handoff}}
+
+## Instructions
+Please complete the {{phase.name}} phase for this issue. When done, provide a summary of your work.
+
+{{phase.approval_notice}}
+`.trim();
+
+/**
+ * Resolve a phase's prompt_template setting to template text.
+ * A single-line value ending in `.md` is a file path, relative to the
+ * prompts directory; anything else is an inline template.
+ */
+export function loadPromptTemplate(
+  template: string | undefined,
+  promptsDir: string = findPromptsDir()
+): string {
+  if (!template) {
+    return DEFAULT_PROMPT_TEMPLATE;
+  }
+
+  if (!template.includes("\n") && template.trim().endsWith(".md")) {
+    const path = isAbsolute(template.trim())
+      ? template.trim()
+      : join(promptsDir, template.trim());
+    if (!existsSync(path)) {
+      throw new Error(`Prompt template not found: ${path}`);
+    }
+    return readFileSync(path, "utf-8");
+  }
+
+  return template;
+}
+
+/**
+ * Render a template, substituting variables and expanding partials from
+ * `<promptsDir>/<name>.md`. Unknown variables render as empty strings.
+ */
+export function renderPromptTemplate(
+  template: string,
+  variables: PromptVariables,
+  promptsDir: string = findPromptsDir(),
+  depth: number = 0
+): string {
+  if (depth > MAX_PARTIAL_DEPTH) {
+    throw new Error(`Prompt partials nested deeper than ${MAX_PARTIAL_DEPTH} levels`);
+  }
+
+  const rendered = template.replace(TAG_PATTERN, (_match, partial: string, name: string) => {
+    if (partial) {
+      const path = join(promptsDir, `${name}.md`);
+      if (!existsSync(path)) {
+        throw new Error(`Prompt partial '${name}' not found in ${promptsDir}`);
+      }
+      return renderPromptTemplate(readFileSync(path, "utf-8"), variables, promptsDir, depth + 1);
+    }
+
+    const value = lookup(variables, name);
+    return value === undefined || typeof value === "object" ? "" : String(value);
+  });
+
+  // Empty sections leave runs of blank lines behind
+  return depth === 0 ? rendered.replace(/\n{3,}/g, "\n\n").trim() : rendered;
+}
+
+/**
+ * Resolve a dotted variable path
+ */
+function lookup(
+  variables: PromptVariables,
+  path: string
+): PromptVariables[string] {
+  let value: PromptVariables[string] = variables;
+  for (const key of path.split(".")) {
+    if (typeof value !== "object" || value === null) {
+      return undefined;
+    }
+    value = value[key];
+  }
+  return value;
+}
+
+/**
+ * Describe the git repository the agent works in
+ */
+export function getRepoInfo(directory: string = process.cwd()): PromptVariables {
+  const git = (...args: string[]): string => {
+    try {
+      const proc = Bun.spawnSync(["git", ...args], { cwd: directory });
+      return proc.exitCode === 0 ? proc.stdout.toString().trim() : "";
+    } catch {
+      return "";
+    }
+  };
+
+  return {
+    root: git("rev-parse", "--show-toplevel") || directory,
+    branch: git("rev-parse", "--abbrev-ref", "HEAD"),
+    commit: git("rev-parse", "--short", "HEAD"),
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Shell Runner
+ * Runs agents as arbitrary CLI tools through a configurable command template
+ */
+
+import type { AgentRunner, AgentRunRequest } from "./agent-runner.ts";
+import type { ParsedEventStream, RunResult } from "./opencode.ts";
+import { killProcessTree, readStream, RunTracker } from "./process-utils.ts";
+
+/**
+ * Fill `{{name}}` placeholders in a command template with shell-quoted values.
+ * Unknown placeholders are left empty.
+ */
+export function renderCommand(
+  template: string,
+  variables: { [key: string]: string | undefined }
+): string {
+  return template.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (_match, name: string) =>
+    shellQuote(variables[name] ?? "")
+  );
+}
+
+/**
+ * Quote a value for safe use as a single POSIX shell word
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Runs the agent's `command` with the instructions piped to stdin.
+ * Standard output is treated as the agent's final message, so scripts
+ * report their result with the same JSON result block as OpenCode agents.
+ */
+export class ShellRunner implements AgentRunner {
+  readonly runtime = "shell" as const;
+  private tracker = new RunTracker();
+
+  async run(request: AgentRunRequest): Promise<RunResult> {
+    const template = request.agent.command;
+    if (!template) {
+      return {
+        success: false,
+        output: "",
+        error: `Agent '${request.agent.id}' has runtime 'shell' but no command`,
+      };
+    }
+
+    const command = renderCommand(template, {
+      ...request.variables,
+      run_id: request.run_id,
+      agent_id: request.agent.id,
+      title: request.title,
+      model: request.model,
+    });
+    const signal = this.tracker.start(request.run_id, request.signal);
+
+    console.log(`Running: ${command}`);
+
+    const proc = Bun.spawn(["sh", "-c", command], {
+      cwd: request.directory || process.cwd(),
+      stdin: new Blob([request.message]),
+      stdout: "pipe",
+      stderr: "pipe",
+      detached: true,  // Own process group so the whole command tree can be killed
+    });
+    request.onSpawn?.(proc.pid);
+
+    let timedOut = false;
+    let aborted = false;
+    const timer = request.timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          killProcessTree(proc.pid);
+        }, request.timeoutMs)
+      : undefined;
+    const onAbort = () => {
+      aborted = true;
+      killProcessTree(proc.pid);
+    };
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+
+    const onOutput = (chunk: string) => {
+      this.tracker.emit(request.run_id, chunk);
+      request.onOutput?.(chunk);
+    };
+
+    try {
+      const [stdout, stderr] = await Promise.all([
+        readStream(proc.stdout, onOutput),
+        readStream(proc.stderr, onOutput),
+      ]);
+      const exitCode = await proc.exited;
+      const events = this.toEventStream(stdout);
+
+      if (timedOut || aborted) {
+        return {
+          success: false,
+          output: stdout,
+          error: timedOut
+            ? `Agent timed out after ${request.timeoutMs}ms`
+            : "Agent run was aborted",
+          events,
+          timed_out: timedOut,
+          aborted,
+        };
+      }
+
+      if (exitCode !== 0) {
+        return {
+          success: false,
+          output: stdout,
+          error: stderr || `Command exited with code ${exitCode}`,
+          events,
+        };
+      }
+
+      return { success: true, output: stdout, events };
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", onAbort);
+      this.tracker.finish(request.run_id);
+    }
+  }
+
+  async abort(runId: string): Promise<boolean> {
+    return this.tracker.abort(runId);
+  }
+
+  stream(runId: string): AsyncIterable<string> {
+    return this.tracker.stream(runId);
+  }
+
+  /**
+   * Shell tools report no tool calls or usage; their output is the message
+   */
+  private toEventStream(stdout: string): ParsedEventStream {
+    return {
+      message: stdout.trim() || undefined,
+      toolCalls: [],
+      artifacts: [],
+      tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+      cost: 0,
+      errors: [],
+    };
+  }
+}
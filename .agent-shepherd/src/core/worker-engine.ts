@@ -3,11 +3,42 @@
  * Handles autonomous issue processing, agent selection, and run execution
  */
 
-import { getReadyIssues, updateIssue, type BeadsIssue } from "./beads.ts";
-import { getOpenCodeClient } from "./opencode.ts";
-import { getPolicyEngine } from "./policy.ts";
-import { getAgentRegistry } from "./agent-registry.ts";
-import { getLogger, type RunOutcome } from "./logging.ts";
+import type { BeadsIssue } from "./beads.ts";
+import { getIssueStore, type IssueStore } from "./issue-store.ts";
+import { totalTokens } from "./opencode.ts";
+import { getAgentRunner } from "./agent-runner.ts";
+import {
+  getPolicyEngine,
+  type PhaseTransition,
+  type PolicyEngine,
+  type PolicySelection,
+} from "./policy.ts";
+import {
+  getAgentRegistry,
+  type AgentConfig,
+  type AgentRegistry,
+} from "./agent-registry.ts";
+import { runGates, type GateResult } from "./gates.ts";
+import { getProcessRegistry, type ProcessRegistry } from "./process-registry.ts";
+import { parseAgentResult, RESULT_BLOCK_INSTRUCTIONS } from "./agent-result.ts";
+import { buildHandoff } from "./handoff.ts";
+import { planMigration, type MigrationPlan } from "./policy-migration.ts";
+import {
+  getRepoInfo,
+  loadPromptTemplate,
+  renderPromptTemplate,
+} from "./prompt-template.ts";
+import {
+  getLogger,
+  type ApprovalRecord,
+  type Logger,
+  type QuestionRecord,
+  type RunOutcome,
+  type WorkflowState,
+} from "./logging.ts";
+
+// Minimum time between heartbeat writes for a run's output activity
+const HEARTBEAT_INTERVAL_MS = 1000;
 
 export interface WorkerConfig {
   poll_interval_ms?: number;
@@ -15,12 +46,40 @@ export interface WorkerConfig {
   excluded_tags?: string[];
 }
 
+/**
+ * Collaborators of the worker, defaulting to the shared singletons
+ */
+export interface WorkerDependencies {
+  issues?: IssueStore;
+  policyEngine?: PolicyEngine;
+  agentRegistry?: AgentRegistry;
+  logger?: Logger;
+  processRegistry?: ProcessRegistry;
+}
+
+export interface ProcessOptions {
+  policy?: string;  // Manual policy override (skips policy rules)
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  approver: string;
+  note?: string;  // Reviewer's note; required to reject
+}
+
+export interface QuestionAnswer {
+  answer: string;
+  answered_by: string;
+}
+
 export interface ProcessResult {
   issue_id: string;
   run_id: string;
+  run_ids?: string[];  // Member runs launched for a parallel group
   success: boolean;
   message?: string;
   next_phase?: string;
+  busy?: boolean;      // Not started because its agents were at max_concurrent
 }
 
 /**
@@ -28,19 +87,30 @@ export interface ProcessResult {
  */
 export class WorkerEngine {
   private config: WorkerConfig;
-  private policyEngine = getPolicyEngine();
-  private agentRegistry = getAgentRegistry();
-  private opencode = getOpenCodeClient();
-  private logger = getLogger();
+  private issues: IssueStore;
+  private policyEngine: PolicyEngine;
+  private agentRegistry: AgentRegistry;
+  private logger: Logger;
+  private processRegistry: ProcessRegistry;
   private isRunning = false;
+  private inFlight = new Map<string, Promise<void>>();
+  private deferred = new Map<string, number>();         // Issue ID -> dispatch time of a failed start
+  private waitingForAgent = new Map<string, number>();  // Issue ID -> dispatch time while agents were busy
+  private wakeUp: (() => void) | null = null;
+  private pendingWake = false;
 
-  constructor(config?: WorkerConfig) {
+  constructor(config?: WorkerConfig, deps: WorkerDependencies = {}) {
     this.config = {
       poll_interval_ms: 30000, // 30 seconds default
       max_concurrent_runs: 3,
       excluded_tags: ["ashep:excluded"],
       ...config,
     };
+    this.issues = deps.issues || getIssueStore();
+    this.policyEngine = deps.policyEngine || getPolicyEngine();
+    this.agentRegistry = deps.agentRegistry || getAgentRegistry();
+    this.logger = deps.logger || getLogger();
+    this.processRegistry = deps.processRegistry || getProcessRegistry();
   }
 
   /**
@@ -48,7 +118,18 @@ export class WorkerEngine {
    */
   async start(): Promise<void> {
     this.isRunning = true;
-    console.log("Worker Engine started");
+    this.pendingWake = false;
+    console.log(
+      `Worker Engine started (max ${this.config.max_concurrent_runs} concurrent runs)`
+    );
+
+    // An issue waiting for a busy agent is retried as soon as one frees up
+    const unsubscribe = this.agentRegistry.onRelease(() => {
+      if (this.waitingForAgent.size > 0) {
+        this.waitingForAgent.clear();
+        this.wake();
+      }
+    });
 
     while (this.isRunning) {
       try {
@@ -57,11 +138,13 @@ export class WorkerEngine {
         console.error("Error in worker loop:", error);
       }
 
-      // Wait before next poll
-      await new Promise((resolve) =>
-        setTimeout(resolve, this.config.poll_interval_ms)
-      );
+      // Wait for the next poll, or until a run finishes and frees a slot
+      await this.waitForNextPoll();
     }
+    unsubscribe();
+
+    // Let in-flight runs finish before returning
+    await Promise.allSettled(this.inFlight.values());
   }
 
   /**
@@ -69,114 +152,776 @@ export class WorkerEngine {
    */
   stop(): void {
     this.isRunning = false;
+    this.wake();
     console.log("Worker Engine stopped");
   }
 
   /**
-   * Process all ready issues
+   * Apply reloaded settings; they take effect from the next poll
+   */
+  updateConfig(config: WorkerConfig = {}): void {
+    this.config = { ...this.config, ...config };
+    this.deferred.clear();
+    this.waitingForAgent.clear();
+    this.wake();
+  }
+
+  /**
+   * Get IDs of issues currently being processed
+   */
+  getInFlightIssueIds(): string[] {
+    return Array.from(this.inFlight.keys());
+  }
+
+  /**
+   * Fill free run slots with ready issues
    */
   private async processReadyIssues(): Promise<void> {
-    const issues = await this.getEligibleIssues();
+    this.expireDeferrals();
 
-    console.log(`Found ${issues.length} eligible issues`);
+    const freeSlots = this.config.max_concurrent_runs! - this.inFlight.size;
+    if (freeSlots <= 0) {
+      return;
+    }
 
-    // Process each issue (could be parallelized with max_concurrent_runs)
-    for (const issue of issues) {
-      try {
-        await this.processIssue(issue);
-      } catch (error) {
+    const issues = (await this.getEligibleIssues()).filter(
+      (issue) =>
+        !this.inFlight.has(issue.id) &&
+        !this.deferred.has(issue.id) &&
+        !this.waitingForAgent.has(issue.id)
+    );
+
+    console.log(
+      `Found ${issues.length} eligible issues (${this.inFlight.size} in flight, ${freeSlots} free slots)`
+    );
+
+    for (const issue of issues.slice(0, freeSlots)) {
+      this.dispatch(issue);
+    }
+  }
+
+  /**
+   * Start processing an issue in the background and track it until it
+   * settles. Only a run that started wakes the loop to fill its slot; an
+   * issue that could not start waits a poll interval, or for an agent to
+   * free up if its agents were all busy.
+   */
+  private dispatch(issue: BeadsIssue): void {
+    const dispatchedAt = Date.now();
+    let started = false;
+    let busy = false;
+    const task = this.processIssue(issue)
+      .then((result) => {
+        started = result.run_id !== "";
+        busy = !!result.busy;
+      })
+      .catch((error) => {
         console.error(`Error processing issue ${issue.id}:`, error);
+      })
+      .finally(() => {
+        this.inFlight.delete(issue.id);
+        if (started) {
+          this.wake();
+        } else if (busy) {
+          this.waitingForAgent.set(issue.id, dispatchedAt);
+        } else {
+          this.deferred.set(issue.id, dispatchedAt);
+        }
+      });
+
+    this.inFlight.set(issue.id, task);
+  }
+
+  /**
+   * Retry issues that could not start once a poll interval has passed
+   * since, however often the loop woke up in between
+   */
+  private expireDeferrals(): void {
+    const cutoff = Date.now() - this.config.poll_interval_ms!;
+    for (const pending of [this.deferred, this.waitingForAgent]) {
+      for (const [issueId, deferredAt] of pending) {
+        if (deferredAt <= cutoff) {
+          pending.delete(issueId);
+        }
       }
     }
   }
 
+  /**
+   * Sleep until the poll interval elapses or wake() is called. Returns at
+   * once if wake() was called while the loop was busy.
+   */
+  private waitForNextPoll(): Promise<void> {
+    if (this.pendingWake) {
+      this.pendingWake = false;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.wakeUp = null;
+        resolve();
+      }, this.config.poll_interval_ms);
+
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        this.wakeUp = null;
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * Interrupt the current poll wait, or the next one if the loop is busy
+   */
+  private wake(): void {
+    if (this.wakeUp) {
+      this.wakeUp();
+    } else {
+      this.pendingWake = true;
+    }
+  }
+
   /**
    * Get eligible issues (ready and not excluded)
    */
   private async getEligibleIssues(): Promise<BeadsIssue[]> {
-    const readyIssues = await getReadyIssues();
+    const readyIssues = await this.issues.getReadyIssues();
+
+    const now = Date.now();
 
     // Filter out excluded issues
     return readyIssues.filter((issue) => {
       // Check if issue has excluded tags in description or title
       const text = `${issue.title} ${issue.description}`.toLowerCase();
-      return !this.config.excluded_tags!.some((tag) =>
-        text.includes(tag.toLowerCase())
-      );
+      if (
+        this.config.excluded_tags!.some((tag) =>
+          text.includes(tag.toLowerCase())
+        )
+      ) {
+        return false;
+      }
+
+      // Skip issues still inside their retry backoff window
+      const workflow = this.logger.getWorkflowState(issue.id);
+      return !workflow?.next_attempt_at || workflow.next_attempt_at <= now;
     });
   }
 
   /**
    * Process a single issue
    */
-  async processIssue(issue: BeadsIssue): Promise<ProcessResult> {
+  async processIssue(
+    issue: BeadsIssue,
+    options: ProcessOptions = {}
+  ): Promise<ProcessResult> {
     console.log(`Processing issue: ${issue.id} - ${issue.title}`);
 
-    // 1. Resolve policy and phase
-    const policy = this.policyEngine.getDefaultPolicyName();
-    const phases = this.policyEngine.getPhaseSequence(policy);
-    const phase = phases[0] || "plan";
+    const runId = createRunId();
 
-    console.log(`Using policy '${policy}' at phase '${phase}'`);
+    // Pin the policies for the whole run, so a reload of policies.yaml
+    // only applies to runs that start after it
+    const loaded = this.policyEngine.snapshot();
 
-    // 2. Select appropriate agent
-    const phaseConfig = this.policyEngine.getPhaseConfig(policy, phase);
-    const agent = this.agentRegistry.selectAgent({
-      required_capabilities: phaseConfig?.capabilities || [],
-      tags: [issue.issue_type],
-    });
+    if (options.policy && !loaded.getPolicy(options.policy)) {
+      return {
+        issue_id: issue.id,
+        run_id: "",
+        success: false,
+        message: `Policy '${options.policy}' not found`,
+      };
+    }
 
-    if (!agent) {
-      console.error(`No suitable agent found for phase '${phase}'`);
+    // 1. Resolve policy and phase from persisted workflow state, moving an
+    // in-flight workflow onto the loaded version if its policy changed
+    const resolved = this.resolveWorkflowState(loaded, issue, options.policy);
+    const migration = this.migrateWorkflow(loaded, resolved.workflow, runId);
+    const { policies, workflow } = migration;
+    if (migration.plan.action === "block") {
+      this.logger.saveWorkflowState({ ...workflow, status: "blocked" });
+      await this.applyTransition(issue.id, { type: "block", reason: migration.plan.reason });
       return {
         issue_id: issue.id,
         run_id: "",
         success: false,
-        message: "No suitable agent available",
+        message: migration.plan.reason,
+      };
+    }
+
+    const policy = workflow.policy_name;
+    const phase = workflow.current_phase;
+
+    // A parallel group fans out to the members that have not completed
+    // within the group's current attempt window
+    const members = policies
+      .getGroupMembers(policy, phase)
+      .map((member) => member.name);
+    const completed = this.getCompletedPhases(workflow, members);
+    const phases =
+      members.length > 0
+        ? members.filter((member) => !completed.includes(member))
+        : [phase];
+
+    // Previous failures in this phase decide how many attempts remain
+    const retryCount = Math.max(
+      ...(members.length > 0 ? members : [phase]).map((name) =>
+        this.getRetryCount(issue.id, name, workflow.phase_started_at)
+      )
+    );
+    workflow.attempt_count = retryCount;
+
+    console.log(
+      `Using policy '${policy}' at phase '${phase}' (attempt ${retryCount + 1})`
+    );
+
+    // 2. Select an agent for every phase to run before launching any,
+    // holding each agent's capacity so group members spread out. Group
+    // members whose agents are all busy wait for a later pass.
+    const launches: Array<{ phase: string; run_id: string; agent: AgentConfig }> = [];
+    const deferred: string[] = [];
+    const releaseAll = () =>
+      launches.forEach((launch) => this.agentRegistry.release(launch.run_id));
+    for (const name of phases) {
+      const launchRunId = launches.length === 0 ? runId : createRunId();
+      const selection = this.selectPhaseAgent(policies, issue, policy, name, launchRunId);
+      if (selection.agent) {
+        this.agentRegistry.acquire(selection.agent.id, launchRunId);
+        launches.push({ phase: name, run_id: launchRunId, agent: selection.agent });
+      } else if (selection.busy && members.length > 0) {
+        deferred.push(name);
+      } else {
+        releaseAll();
+        return {
+          issue_id: issue.id,
+          run_id: "",
+          success: false,
+          message: selection.busy
+            ? `All agents for phase '${name}' are at their max_concurrent limit`
+            : "No suitable agent available",
+          busy: selection.busy,
+        };
+      }
+    }
+    if (launches.length === 0) {
+      return {
+        issue_id: issue.id,
+        run_id: "",
+        success: false,
+        message: `All agents for phase '${phase}' are at their max_concurrent limit`,
+        busy: true,
+      };
+    }
+
+    // A new workflow only records its policy once it actually starts, so
+    // an issue waiting for an agent does not log it on every poll
+    if (resolved.selection) {
+      this.logger.logDecision({
+        run_id: runId,
+        type: "policy_selection",
+        decision: resolved.selection.policy,
+        reasoning: resolved.selection.reason,
+        metadata: {
+          issue_id: issue.id,
+          rule: resolved.selection.rule,
+          override: !!options.policy,
+        },
+      });
+    }
+
+    // 3. Update issue status to in_progress
+    try {
+      await this.issues.updateIssue(issue.id, { status: "in_progress" });
+    } catch (error) {
+      releaseAll();
+      throw error;
+    }
+
+    // 4. Run the phase, or all pending members of the group concurrently
+    const outcomes = await Promise.all(
+      launches.map((launch) =>
+        this.runPhase(
+          policies,
+          issue,
+          { ...workflow, current_phase: launch.phase },
+          launch.agent,
+          launch.run_id,
+          retryCount + 1,
+          members.length > 0 ? { group: phase } : undefined
+        )
+      )
+    );
+
+    // An agent that asked a question waits for a human's answer; the
+    // phase then runs again without using up an attempt
+    const asked = launches
+      .map((launch, index) => ({ launch, outcome: outcomes[index] }))
+      .filter((entry) => entry.outcome.question);
+    if (asked.length > 0) {
+      const questions = asked.map(({ launch, outcome }) =>
+        this.recordQuestion(workflow, launch.run_id, launch.phase, launch.agent.id, outcome)
+      );
+      this.logger.saveWorkflowState({
+        ...workflow,
+        last_run_id: asked[asked.length - 1].launch.run_id,
+        status: "blocked",
+        next_attempt_at: undefined,
+      });
+
+      const reason = `Waiting for an answer to: ${questions[0].question}`;
+      await this.applyTransition(issue.id, { type: "block", reason });
+      return {
+        issue_id: issue.id,
+        run_id: launches[0].run_id,
+        run_ids: members.length > 0 ? launches.map((launch) => launch.run_id) : undefined,
+        success: false,
+        message: reason,
+      };
+    }
+
+    // The group's result is decided once its deferred members have run
+    if (deferred.length > 0) {
+      this.logger.saveWorkflowState({
+        ...workflow,
+        last_run_id: launches[launches.length - 1].run_id,
+        next_attempt_at: undefined,
+      });
+      await this.issues.updateIssue(issue.id, { status: "open" });
+      return {
+        issue_id: issue.id,
+        run_id: launches[0].run_id,
+        run_ids: launches.map((launch) => launch.run_id),
+        success: outcomes.every((result) => result.success),
+        message: `Waiting for a free agent for: ${deferred.join(", ")}`,
       };
     }
 
-    console.log(`Selected agent: ${agent.name} (${agent.id})`);
+    const outcome =
+      members.length > 0
+        ? this.joinGroupOutcomes(
+            policies,
+            policy,
+            phase,
+            completed,
+            launches.map((launch, index) => ({
+              phase: launch.phase,
+              outcome: outcomes[index],
+            }))
+          )
+        : outcomes[0];
+    const lastRunId = launches[launches.length - 1].run_id;
+
+    // 5. Determine transition based on outcome
+    const transition = policies.determineTransition(policy, phase, {
+      success: outcome.success,
+      retry_count: retryCount,
+      requires_approval: outcome.requires_approval,
+      loop_count: workflow.loop_counts?.[phase] || 0,
+    });
+
+    // Log transition decision
+    this.logger.logDecision({
+      run_id: lastRunId,
+      type: "phase_transition",
+      decision: transition.type,
+      reasoning: transition.reason,
+      metadata: {
+        next_phase: transition.next_phase,
+        loop: transition.loop,
+        group_runs: members.length > 0 ? launches.map((launch) => launch.run_id) : undefined,
+        outcome,
+      },
+    });
+
+    // 6. Persist workflow progress so the next run resumes at the right phase
+    if (
+      transition.type === "block" &&
+      (outcome.requires_approval || policies.getPhaseConfig(policy, phase)?.require_approval)
+    ) {
+      this.requestApproval(
+        policies,
+        workflow,
+        lastRunId,
+        launches[launches.length - 1].agent.id,
+        outcome
+      );
+    }
+    this.advanceWorkflowState(workflow, lastRunId, transition);
+
+    // 7. Update Beads state based on transition
+    await this.applyTransition(issue.id, transition);
+
+    return {
+      issue_id: issue.id,
+      run_id: launches[0].run_id,
+      run_ids: members.length > 0 ? launches.map((launch) => launch.run_id) : undefined,
+      success: outcome.success,
+      message: transition.reason,
+      next_phase: transition.next_phase,
+    };
+  }
+
+  /**
+   * Apply a reviewer's decision on the result an issue is waiting on.
+   * Approval lifts the approval gate and the phase transitions as it
+   * would have without it; a rejection follows the phase's
+   * on_approval_rejected target, and the note reaches that phase's agent.
+   */
+  async resolveApproval(
+    issueId: string,
+    decision: ApprovalDecision
+  ): Promise<{ approval: ApprovalRecord; transition: PhaseTransition }> {
+    const approval = this.logger.getPendingApproval(issueId);
+    if (!approval) {
+      throw new Error(`Issue ${issueId} has no pending approval`);
+    }
+    if (approval.approvers?.length && !approval.approvers.includes(decision.approver)) {
+      throw new Error(
+        `${decision.approver} may not decide on ${issueId} (approvers: ${approval.approvers.join(", ")})`
+      );
+    }
+    if (!decision.approved && !decision.note?.trim()) {
+      throw new Error("A rejection needs a reason");
+    }
+
+    const workflow = this.logger.getWorkflowState(issueId);
+    if (!workflow || workflow.current_phase !== approval.phase) {
+      throw new Error(`Issue ${issueId} is no longer waiting at phase '${approval.phase}'`);
+    }
+
+    // Decide on the policy version the reviewed run used
+    let policies = this.policyEngine.snapshot();
+    const version = approval.policy_hash
+      ? this.logger.getPolicyVersion(approval.policy_hash)
+      : null;
+    if (version && approval.policy_hash !== policies.getPolicyHash(approval.policy_name)) {
+      policies = policies.withPolicy(approval.policy_name, version.config);
+    }
+
+    const transition = policies.determineTransition(approval.policy_name, approval.phase, {
+      success: approval.success,
+      // Blocking for approval counted the reviewed attempt
+      retry_count: Math.max(0, workflow.attempt_count - 1),
+      approved: decision.approved,
+      approval_rejected: !decision.approved,
+      loop_count: workflow.loop_counts?.[approval.phase] || 0,
+    });
+
+    const decided = this.logger.updateApproval(approval.id, {
+      status: decision.approved ? "approved" : "rejected",
+      decided_by: decision.approver,
+      note: decision.note,
+      decided_at: Date.now(),
+    })!;
+
+    this.logger.logDecision({
+      run_id: approval.run_id,
+      type: "hitl",
+      decision: decision.approved ? "approved" : "rejected",
+      reasoning: decision.note,
+      metadata: {
+        issue_id: issueId,
+        approval_id: approval.id,
+        approver: decision.approver,
+        phase: approval.phase,
+        transition: transition.type,
+        next_phase: transition.next_phase,
+      },
+    });
+
+    this.advanceWorkflowState(workflow, approval.run_id, transition);
+    await this.applyTransition(issueId, transition);
+
+    return { approval: decided, transition };
+  }
+
+  /**
+   * Record a human's answer to the question an issue is waiting on and
+   * reopen the issue, so the phase that asked runs again with the answer.
+   * Questions asked by several members of a parallel group are answered
+   * one at a time, and the issue reopens once none is left.
+   */
+  async answerQuestion(
+    issueId: string,
+    answer: QuestionAnswer
+  ): Promise<{ question: QuestionRecord; remaining: number }> {
+    const [pending, ...rest] = this.logger.listQuestions({
+      issue_id: issueId,
+      status: "pending",
+    });
+    if (!pending) {
+      throw new Error(`Issue ${issueId} has no pending question`);
+    }
+    if (!answer.answer.trim()) {
+      throw new Error("An answer cannot be empty");
+    }
+
+    const question = this.logger.updateQuestion(pending.id, {
+      status: "answered",
+      answer: answer.answer,
+      answered_by: answer.answered_by,
+      answered_at: Date.now(),
+    })!;
+
+    this.logger.logDecision({
+      run_id: question.run_id,
+      type: "hitl",
+      decision: "question_answered",
+      reasoning: answer.answer,
+      metadata: {
+        issue_id: issueId,
+        question_id: question.id,
+        phase: question.phase,
+        answered_by: answer.answered_by,
+      },
+    });
+
+    if (rest.length === 0) {
+      // Reactivate the workflow as it was, so the answered phase keeps its
+      // attempt window and a group keeps its completed members
+      const workflow = this.logger.getWorkflowState(issueId);
+      if (workflow && workflow.status === "blocked") {
+        this.logger.saveWorkflowState({ ...workflow, status: "active" });
+      }
+      await this.issues.updateIssue(issueId, { status: "open" });
+      console.log(`Answered question ${question.id}; reopened ${issueId}`);
+    }
+
+    return { question, remaining: rest.length };
+  }
+
+  /**
+   * Record the question an agent asked and log the decision to wait
+   */
+  private recordQuestion(
+    workflow: Omit<WorkflowState, "updated_at">,
+    runId: string,
+    phase: string,
+    agentId: string,
+    outcome: RunOutcome
+  ): QuestionRecord {
+    const question = this.logger.createQuestion({
+      issue_id: workflow.issue_id,
+      run_id: runId,
+      policy_name: workflow.policy_name,
+      phase,
+      agent_id: agentId,
+      question: outcome.question!.text,
+      options: outcome.question!.options,
+    });
+
+    this.logger.logDecision({
+      run_id: runId,
+      type: "hitl",
+      decision: "question_asked",
+      reasoning: question.question,
+      metadata: {
+        issue_id: workflow.issue_id,
+        question_id: question.id,
+        phase,
+        options: question.options,
+      },
+    });
+    console.log(`Question ${question.id} asked for ${workflow.issue_id} at phase '${phase}'`);
+
+    return question;
+  }
+
+  /**
+   * Record that a phase's result awaits a reviewer's decision
+   */
+  private requestApproval(
+    policies: PolicyEngine,
+    workflow: Omit<WorkflowState, "updated_at">,
+    runId: string,
+    agentId: string,
+    outcome: RunOutcome
+  ): void {
+    const phase = workflow.current_phase;
+    const approval = this.logger.createApproval({
+      issue_id: workflow.issue_id,
+      run_id: runId,
+      policy_name: workflow.policy_name,
+      policy_hash: workflow.policy_hash,
+      phase,
+      agent_id: agentId,
+      success: outcome.success,
+      summary: outcome.message,
+      approvers: policies.getPhaseConfig(workflow.policy_name, phase)?.approvers,
+    });
+    console.log(`Approval ${approval.id} requested for ${workflow.issue_id} at phase '${phase}'`);
+  }
+
+  /**
+   * Select the agent for a phase and log the decision. When no agent
+   * matches, the configured fallback hierarchy picks one; when matching
+   * agents are all busy, the phase waits for one of them.
+   */
+  private selectPhaseAgent(
+    policies: PolicyEngine,
+    issue: BeadsIssue,
+    policy: string,
+    phase: string,
+    runId: string
+  ): { agent: AgentConfig | null; busy?: boolean } {
+    const phaseConfig = policies.getPhaseConfig(policy, phase);
+    const capabilities = phaseConfig?.capabilities || [];
+    const criteria = {
+      required_capabilities: capabilities,
+      tags: [issue.issue_type],
+    };
+    const agent = this.agentRegistry.selectAgent(criteria);
+
+    if (agent) {
+      console.log(`Selected agent for '${phase}': ${agent.name} (${agent.id})`);
+
+      // Log agent selection decision
+      this.logger.logDecision({
+        run_id: runId,
+        type: "agent_selection",
+        decision: agent.id,
+        reasoning: `Selected for capabilities: ${capabilities.join(", ")}`,
+        metadata: {
+          issue_id: issue.id,
+          phase,
+          policy,
+          in_flight: this.agentRegistry.getInFlightCount(agent.id),
+        },
+      });
+
+      return { agent };
+    }
+
+    if (this.agentRegistry.findCandidates(criteria).length > 0) {
+      console.log(`All agents for phase '${phase}' are busy`);
+      return { agent: null, busy: true };
+    }
+
+    const fallback = this.agentRegistry.selectFallbackAgent(
+      capabilities,
+      policies.getPolicy(policy),
+      phaseConfig
+    );
+    if (!fallback) {
+      console.error(`No suitable agent found for phase '${phase}'`);
+      return { agent: null };
+    }
+    if (!this.agentRegistry.hasCapacity(fallback.agent.id)) {
+      console.log(`Fallback agent for phase '${phase}' is busy`);
+      return { agent: null, busy: true };
+    }
+
+    const reasoning = `No agent matched capabilities: ${capabilities.join(", ") || "none"}; using ${fallback.reason}`;
+    console.log(`Selected fallback agent for '${phase}': ${fallback.agent.name} (${fallback.agent.id}) - ${reasoning}`);
 
-    // Log agent selection decision
-    const runId = `run-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
-    
     this.logger.logDecision({
       run_id: runId,
       type: "agent_selection",
-      decision: agent.id,
-      reasoning: `Selected for capabilities: ${phaseConfig?.capabilities?.join(", ")}`,
+      decision: fallback.agent.id,
+      reasoning,
       metadata: {
         issue_id: issue.id,
         phase,
         policy,
+        fallback: true,
+        fallback_level: fallback.level,
+        capability: fallback.capability,
       },
     });
 
-    // 3. Create run record
+    return { agent: fallback.agent };
+  }
+
+  /**
+   * Run one phase (or one member of a parallel group) with its agent,
+   * verify the result with the phase's gates and record the run
+   */
+  private async runPhase(
+    policies: PolicyEngine,
+    issue: BeadsIssue,
+    workflow: Omit<WorkflowState, "updated_at">,
+    agent: AgentConfig,
+    runId: string,
+    attempt: number,
+    metadata?: Record<string, unknown>
+  ): Promise<RunOutcome> {
+    const policy = workflow.policy_name;
+    const phase = workflow.current_phase;
+    const phaseConfig = policies.getPhaseConfig(policy, phase);
+
+    // Earlier phases (and a failed previous attempt) are handed to the agent
+    const handoff = this.getHandoff(policies, workflow);
+
+    // Keep the policy version the run used, so its workflow can finish
+    // on it after the policy changes
+    const policyHash = policies.getPolicyHash(policy) || undefined;
+    if (policyHash) {
+      this.logger.savePolicyVersion(policyHash, policy, policies.getPolicy(policy)!);
+    }
+
+    // Create run record
     const run = this.logger.createRun({
       id: runId,
       issue_id: issue.id,
       session_id: "",
       agent_id: agent.id,
       policy_name: policy,
+      policy_hash: policyHash,
       phase,
       status: "pending",
+      metadata,
     });
 
-    // 4. Update issue status to in_progress
-    await updateIssue(issue.id, { status: "in_progress" });
-
-    // 5. Launch agent in OpenCode
+    // Launch agent in OpenCode
     let outcome: RunOutcome;
     try {
-      outcome = await this.launchAgent(issue, agent.id, phase, policy);
+      outcome = await this.launchAgent(
+        policies,
+        issue,
+        agent.id,
+        phase,
+        policy,
+        run.id,
+        attempt,
+        handoff
+      );
+
+      // The monitor may have already failed the run (e.g. killed it as
+      // stalled) or handed it to a human who took over the session
+      const supervised = this.logger.getRun(run.id);
+      const takenOver = supervised?.status === "blocked";
+      if (supervised?.status === "failed" && supervised.outcome) {
+        outcome = { ...supervised.outcome, metrics: outcome.metrics };
+      } else if (takenOver) {
+        // The human in the session can answer the agent directly
+        outcome = { ...outcome, requires_approval: true, question: undefined };
+      }
+
+      // Verify the agent's work with the phase's quality gates
+      let gates: GateResult[] | undefined;
+      if (outcome.success && !takenOver && phaseConfig?.gates?.length) {
+        gates = await runGates(phaseConfig.gates, process.cwd());
+        const failed = gates.find((gate) => !gate.passed);
+        if (failed) {
+          console.error(`Gate '${failed.name}' failed`);
+          outcome = {
+            ...outcome,
+            success: false,
+            requires_approval: false,
+            error: failed.timed_out
+              ? `Gate '${failed.name}' timed out`
+              : `Gate '${failed.name}' failed with exit code ${failed.exit_code}`,
+            error_code: "GATE_FAILED",
+          };
+        }
+      }
 
       // Update run with outcome
       this.logger.updateRun(run.id, {
-        status: outcome.success ? "completed" : "failed",
+        status:
+          takenOver || outcome.question ? "blocked" : outcome.success ? "completed" : "failed",
         outcome,
         completed_at: Date.now(),
+        metadata: gates ? { ...run.metadata, gates } : run.metadata,
       });
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -190,46 +935,378 @@ export class WorkerEngine {
         outcome,
         completed_at: Date.now(),
       });
+    } finally {
+      this.processRegistry.release(run.id);
+      this.agentRegistry.release(run.id);
     }
 
-    // 6. Determine transition based on outcome
-    const transition = this.policyEngine.determineTransition(policy, phase, {
-      success: outcome.success,
-      requires_approval: outcome.requires_approval,
-    });
+    return outcome;
+  }
 
-    // Log transition decision
-    this.logger.logDecision({
-      run_id: run.id,
-      type: "phase_transition",
-      decision: transition.type,
-      reasoning: transition.reason,
-      metadata: {
-        next_phase: transition.next_phase,
-        outcome,
+  /**
+   * Combine the outcomes of a parallel group's members. The group succeeds
+   * once its quorum of members has succeeded, counting members that
+   * completed in earlier attempts of the group.
+   */
+  private joinGroupOutcomes(
+    policies: PolicyEngine,
+    policy: string,
+    group: string,
+    completed: string[],
+    runs: Array<{ phase: string; outcome: RunOutcome }>
+  ): RunOutcome {
+    const succeeded = [
+      ...completed,
+      ...runs.filter((run) => run.outcome.success).map((run) => run.phase),
+    ];
+    const failed = runs.filter((run) => !run.outcome.success);
+    const quorum = policies.getGroupQuorum(policy, group);
+    const total = policies.getGroupMembers(policy, group).length;
+    const message = `${succeeded.length}/${total} parallel members succeeded (quorum ${quorum})`;
+    const requiresApproval = runs.some((run) => run.outcome.requires_approval);
+
+    if (succeeded.length >= quorum) {
+      return {
+        success: true,
+        message,
+        requires_approval: requiresApproval,
+        artifacts: [...new Set(runs.flatMap((run) => run.outcome.artifacts || []))],
+      };
+    }
+
+    return {
+      success: false,
+      message,
+      requires_approval: requiresApproval,
+      error: failed
+        .map((run) => `${run.phase}: ${run.outcome.error || "failed"}`)
+        .join("; "),
+      error_code: "QUORUM_NOT_MET",
+    };
+  }
+
+  /**
+   * Resolve the workflow state for an issue, starting a new workflow
+   * at the first phase of the selected policy when none is active. A new
+   * workflow comes with the policy selection that picked it.
+   */
+  private resolveWorkflowState(
+    policies: PolicyEngine,
+    issue: BeadsIssue,
+    policyOverride?: string
+  ): { workflow: Omit<WorkflowState, "updated_at">; selection?: PolicySelection } {
+    const existing = this.logger.getWorkflowState(issue.id);
+
+    if (
+      existing &&
+      existing.status !== "completed" &&
+      policies.getPolicy(existing.policy_name) &&
+      (!policyOverride || policyOverride === existing.policy_name)
+    ) {
+      // A blocked workflow that is ready again was unblocked by a human,
+      // so it gets a fresh set of attempts for its current phase
+      if (existing.status === "blocked") {
+        // Unblocking by hand instead of deciding leaves an approval moot
+        const pending = this.logger.getPendingApproval(issue.id);
+        if (pending) {
+          this.logger.updateApproval(pending.id, { status: "withdrawn", decided_at: Date.now() });
+        }
+        for (const question of this.logger.listQuestions({ issue_id: issue.id, status: "pending" })) {
+          this.logger.updateQuestion(question.id, { status: "withdrawn", answered_at: Date.now() });
+        }
+        return {
+          workflow: {
+            ...existing,
+            attempt_count: 0,
+            status: "active",
+            phase_started_at: Date.now(),
+            next_attempt_at: undefined,
+          },
+        };
+      }
+      return { workflow: existing };
+    }
+
+    const selection: PolicySelection = policyOverride
+      ? { policy: policyOverride, reason: "Manual policy override" }
+      : policies.selectPolicy(issue);
+
+    const policy = selection.policy;
+    const phases = policies.getPhaseSequence(policy);
+
+    return {
+      workflow: {
+        issue_id: issue.id,
+        policy_name: policy,
+        current_phase: phases[0] || "plan",
+        attempt_count: 0,
+        status: "active",
+        phase_started_at: Date.now(),
+        created_at: Date.now(),
       },
+      selection,
+    };
+  }
+
+  /**
+   * Apply the policy's migration strategy to a workflow started on an
+   * earlier version of its policy. Returns the policies the workflow runs
+   * on, which for `continue` is the stored version it started with.
+   */
+  private migrateWorkflow(
+    policies: PolicyEngine,
+    workflow: Omit<WorkflowState, "updated_at">,
+    runId: string
+  ): {
+    policies: PolicyEngine;
+    workflow: Omit<WorkflowState, "updated_at">;
+    plan: MigrationPlan;
+  } {
+    const policy = workflow.policy_name;
+    const hash = policies.getPolicyHash(policy) || undefined;
+    const previous = workflow.policy_hash
+      ? this.logger.getPolicyVersion(workflow.policy_hash)
+      : null;
+    const plan = planMigration(
+      policies,
+      policy,
+      workflow.current_phase,
+      workflow.policy_hash,
+      previous?.config || null
+    );
+
+    if (plan.action === "none") {
+      return { policies, workflow: { ...workflow, policy_hash: hash }, plan };
+    }
+
+    // A workflow that continues keeps its old hash, so every later pass
+    // plans the same migration; only the first one is recorded
+    const recorded =
+      plan.action === "continue" &&
+      this.logger
+        .getIssueDecisions(workflow.issue_id, "policy_migration")
+        .some(
+          (decision) =>
+            decision.metadata?.from_hash === workflow.policy_hash &&
+            decision.metadata?.to_hash === hash
+        );
+    if (!recorded) {
+      console.log(`Policy migration for ${workflow.issue_id}: ${plan.reason}`);
+      this.logger.logDecision({
+        run_id: runId,
+        type: "policy_migration",
+        decision: plan.action,
+        reasoning: plan.reason,
+        metadata: {
+          issue_id: workflow.issue_id,
+          from_hash: workflow.policy_hash,
+          to_hash: hash,
+          from_phase: plan.from_phase,
+          to_phase: plan.to_phase,
+        },
+      });
+    }
+
+    const now = Date.now();
+    switch (plan.action) {
+      case "continue":
+        return { policies: policies.withPolicy(policy, previous!.config), workflow, plan };
+
+      case "map":
+        return {
+          policies,
+          workflow: {
+            ...workflow,
+            policy_hash: hash,
+            current_phase: plan.to_phase!,
+            // A renamed phase starts a new attempt window
+            phase_started_at:
+              plan.to_phase === plan.from_phase ? workflow.phase_started_at : now,
+          },
+          plan,
+        };
+
+      case "restart":
+        return {
+          policies,
+          workflow: {
+            ...workflow,
+            policy_hash: hash,
+            current_phase: plan.to_phase!,
+            attempt_count: 0,
+            loop_counts: undefined,
+            phase_started_at: now,
+            created_at: now,
+          },
+          plan,
+        };
+
+      default:
+        return { policies, workflow, plan };
+    }
+  }
+
+  /**
+   * Build the handoff digest from the earlier runs of an issue's workflow
+   */
+  private getHandoff(
+    policies: PolicyEngine,
+    workflow: Omit<WorkflowState, "updated_at">
+  ): string {
+    const runs = this.logger
+      .queryRuns({ issue_id: workflow.issue_id })
+      .filter(
+        (run) =>
+          run.policy_name === workflow.policy_name &&
+          run.created_at >= workflow.created_at
+      );
+
+    // A rejection goes to the phase it routes to, until a phase completes
+    // after it
+    const rejection = this.logger
+      .listApprovals({ issue_id: workflow.issue_id, status: "rejected" })
+      .filter((approval) => approval.created_at >= workflow.created_at)
+      .pop();
+    const addressed =
+      rejection &&
+      runs.some(
+        (run) => run.status === "completed" && run.created_at > (rejection.decided_at || 0)
+      );
+
+    // Answers go to every later attempt of the phase that asked
+    const answers = this.logger
+      .listQuestions({ issue_id: workflow.issue_id, status: "answered" })
+      .filter(
+        (question) =>
+          question.phase === workflow.current_phase &&
+          question.created_at >= workflow.created_at
+      )
+      .map((question) => ({
+        question: question.question,
+        answer: question.answer || "",
+        answered_by: question.answered_by,
+      }));
+
+    return buildHandoff(runs, {
+      phase: workflow.current_phase,
+      phase_started_at: workflow.phase_started_at,
+      rejection:
+        rejection && !addressed
+          ? { phase: rejection.phase, reviewer: rejection.decided_by, note: rejection.note }
+          : undefined,
+      answers,
+      config: policies.getHandoffConfig(
+        workflow.policy_name,
+        workflow.current_phase
+      ),
     });
+  }
 
-    // 7. Update Beads state based on transition
-    await this.applyTransition(issue.id, transition);
+  /**
+   * Phases among the given ones with a completed run in the workflow's
+   * current attempt window
+   */
+  private getCompletedPhases(
+    workflow: Omit<WorkflowState, "updated_at">,
+    phases: string[]
+  ): string[] {
+    if (phases.length === 0) {
+      return [];
+    }
+    const completed = this.logger
+      .queryRuns({ issue_id: workflow.issue_id, status: "completed" })
+      .filter((run) => run.created_at >= (workflow.phase_started_at || 0))
+      .map((run) => run.phase);
+    return phases.filter((phase) => completed.includes(phase));
+  }
 
-    return {
-      issue_id: issue.id,
-      run_id: run.id,
-      success: outcome.success,
-      message: transition.reason,
-      next_phase: transition.next_phase,
+  /**
+   * Count failed runs of a phase within its current attempt window
+   */
+  private getRetryCount(
+    issueId: string,
+    phase: string,
+    since: number = 0
+  ): number {
+    return this.logger
+      .queryRuns({ issue_id: issueId, phase, status: "failed" })
+      .filter((run) => run.created_at >= since).length;
+  }
+
+  /**
+   * Persist the workflow state that results from a phase transition
+   */
+  private advanceWorkflowState(
+    workflow: Omit<WorkflowState, "updated_at">,
+    runId: string,
+    transition: PhaseTransition
+  ): void {
+    const now = Date.now();
+    const next: Omit<WorkflowState, "updated_at"> = {
+      ...workflow,
+      last_run_id: runId,
+      next_attempt_at: undefined,
     };
+
+    switch (transition.type) {
+      case "advance":
+        next.current_phase = transition.next_phase || workflow.current_phase;
+        next.attempt_count = 0;
+        next.status = "active";
+        next.phase_started_at = now;
+        if (transition.loop) {
+          next.loop_counts = {
+            ...workflow.loop_counts,
+            [workflow.current_phase]: (workflow.loop_counts?.[workflow.current_phase] || 0) + 1,
+          };
+        }
+        break;
+
+      case "retry": {
+        const delay = transition.retry_delay_ms || 0;
+        next.attempt_count = workflow.attempt_count + 1;
+        next.status = "active";
+        next.next_attempt_at = now + delay;
+
+        this.logger.logDecision({
+          run_id: runId,
+          type: "retry",
+          decision: "retry_scheduled",
+          reasoning: `Next attempt of '${workflow.current_phase}' in ${delay}ms`,
+          metadata: {
+            issue_id: workflow.issue_id,
+            retry_count: next.attempt_count,
+            next_attempt_at: next.next_attempt_at,
+          },
+        });
+        break;
+      }
+
+      case "block":
+        next.attempt_count = workflow.attempt_count + 1;
+        next.status = "blocked";
+        break;
+
+      case "close":
+        next.status = "completed";
+        break;
+    }
+
+    this.logger.saveWorkflowState(next);
   }
 
   /**
-   * Launch agent using OpenCode CLI
+   * Launch agent using OpenCode
    */
   private async launchAgent(
+    policies: PolicyEngine,
     issue: BeadsIssue,
     agentId: string,
     phase: string,
-    policy: string
+    policy: string,
+    runId: string,
+    attempt: number,
+    handoff: string
   ): Promise<RunOutcome> {
     // Get agent configuration
     const agent = this.agentRegistry.getAgent(agentId);
@@ -238,7 +1315,7 @@ export class WorkerEngine {
     }
 
     // Get phase configuration to check for model override
-    const phaseConfig = this.policyEngine.getPhaseConfig(policy, phase);
+    const phaseConfig = policies.getPhaseConfig(policy, phase);
 
     // Determine model to use (priority: Phase > Agent > OpenCode default)
     let modelToUse: string | undefined;
@@ -256,24 +1333,98 @@ export class WorkerEngine {
     }
 
     // Prepare instructions for the agent
-    const instructions = this.buildInstructions(issue, phase, policy);
+    const instructions = this.buildInstructions(policies, issue, policy, phase, attempt, handoff);
+
+    const runner = getAgentRunner(agent.runtime);
+    console.log(`Running agent ${agentId} with the ${runner.runtime} runtime...`);
 
-    console.log(`Running agent ${agentId} with OpenCode CLI...`);
+    const startTime = Date.now();
+    let lastHeartbeat = startTime;
 
-    // Run agent using OpenCode CLI
-    const result = await this.opencode.runAgentCLI({
+    // Run agent using its configured runtime
+    const result = await runner.run({
+      run_id: runId,
+      agent,
       directory: process.cwd(),
       title: `${issue.id}: ${issue.title}`,
-      agent: agentId,
       model: modelToUse,
       message: instructions,
+      variables: { issue_id: issue.id, phase, policy, attempt: String(attempt) },
+      timeoutMs: policies.calculateTimeout(policy, phase),
+      signal: this.processRegistry.track(runId),
+      onSpawn: (pid) => this.processRegistry.register(runId, { pid }),
+      onSession: (sessionId) =>
+        this.processRegistry.register(runId, { session_id: sessionId }),
+      onOutput: () => {
+        // Throttle heartbeat writes; the stall threshold is far coarser
+        const now = Date.now();
+        if (now - lastHeartbeat >= HEARTBEAT_INTERVAL_MS) {
+          lastHeartbeat = now;
+          this.logger.recordHeartbeat({ run_id: runId, last_output_at: now });
+        }
+      },
     });
 
+    const events = result.events;
+    const metrics: RunOutcome["metrics"] = {
+      duration_ms: Date.now() - startTime,
+      tokens_used: events ? totalTokens(events.tokens) : undefined,
+      cost: events?.cost,
+    };
+
     if (!result.success) {
       console.error(`Agent execution failed: ${result.error}`);
       return {
         success: false,
+        message: events?.message,
+        artifacts: events?.artifacts,
         error: result.error || "Agent execution failed",
+        error_code: result.timed_out ? "TIMEOUT" : "AGENT_EXECUTION_FAILED",
+        metrics,
+      };
+    }
+
+    // The agent's own result block decides the phase outcome
+    const parsed = parseAgentResult(events?.message);
+    if (!parsed.result) {
+      console.error(`Agent result rejected: ${parsed.error}`);
+      return {
+        success: false,
+        message: events?.message,
+        artifacts: events?.artifacts,
+        error: parsed.error,
+        error_code: parsed.error_code,
+        metrics,
+      };
+    }
+
+    const agentResult = parsed.result;
+    const artifacts = [
+      ...new Set([...(events?.artifacts || []), ...(agentResult.changed_files || [])]),
+    ];
+
+    if (agentResult.status === "question") {
+      console.log(`Agent asked a question: ${agentResult.question!.text}`);
+      return {
+        success: false,
+        message: agentResult.summary,
+        artifacts,
+        question: agentResult.question,
+        follow_ups: agentResult.follow_ups,
+        metrics,
+      };
+    }
+
+    if (agentResult.status === "failure") {
+      console.error(`Agent reported failure: ${agentResult.error || agentResult.summary}`);
+      return {
+        success: false,
+        message: agentResult.summary,
+        artifacts,
+        error: agentResult.error || agentResult.summary,
+        error_code: "AGENT_REPORTED_FAILURE",
+        follow_ups: agentResult.follow_ups,
+        metrics,
       };
     }
 
@@ -281,43 +1432,115 @@ export class WorkerEngine {
 
     return {
       success: true,
-      message: "Task completed by agent",
+      message: agentResult.summary,
+      artifacts,
+      requires_approval: agentResult.requires_approval,
+      follow_ups: agentResult.follow_ups,
+      metrics,
     };
   }
 
   /**
-   * Build instructions for the agent
+   * Render the instructions an issue would receive for a phase, without
+   * running it. Defaults to the policy and phase of its active workflow.
    */
-  private buildInstructions(
+  renderPrompt(
     issue: BeadsIssue,
-    phase: string,
-    policy: string
+    options: { policy?: string; phase?: string } = {}
   ): string {
-    const phaseConfig = this.policyEngine.getPhaseConfig(policy, phase);
+    const existing = this.logger.getWorkflowState(issue.id);
+    const active =
+      existing &&
+      existing.status !== "completed" &&
+      (!options.policy || options.policy === existing.policy_name)
+        ? existing
+        : null;
 
-    return `
-# Task: ${issue.title}
+    const policy =
+      active?.policy_name ||
+      options.policy ||
+      this.policyEngine.selectPolicy(issue).policy;
+    const phase =
+      options.phase ||
+      active?.current_phase ||
+      this.policyEngine.getPhaseSequence(policy)[0];
 
-## Issue Details
-- ID: ${issue.id}
-- Type: ${issue.issue_type}
-- Priority: P${issue.priority}
-- Status: ${issue.status}
+    if (!this.policyEngine.getPhaseConfig(policy, phase)) {
+      throw new Error(`Phase '${phase}' not found in policy '${policy}'`);
+    }
 
-## Description
-${issue.description}
+    // Each member of a parallel group gets its own instructions
+    const members = this.policyEngine.getGroupMembers(policy, phase);
+    if (members.length > 0) {
+      throw new Error(
+        `Phase '${phase}' is a parallel group; render one of its members: ${members.map((member) => member.name).join(", ")}`
+      );
+    }
 
-## Current Phase
-**${phase}** ${phaseConfig?.description ? `- ${phaseConfig.description}` : ""}
+    const current =
+      active?.current_phase === phase ||
+      active?.current_phase === this.policyEngine.getPhaseGroup(policy, phase)?.name;
+    const attempt = current
+      ? this.getRetryCount(issue.id, phase, active?.phase_started_at) + 1
+      : 1;
+    const handoff = active
+      ? this.getHandoff(this.policyEngine, {
+          ...active,
+          current_phase: phase,
+          phase_started_at: current ? active.phase_started_at : Date.now(),
+        })
+      : "";
 
-## Required Capabilities
-${phaseConfig?.capabilities?.map((cap) => `- ${cap}`).join("\n") || "None specified"}
+    return this.buildInstructions(this.policyEngine, issue, policy, phase, attempt, handoff);
+  }
 
-## Instructions
-Please complete the ${phase} phase for this issue. When done, provide a summary of your work.
+  /**
+   * Build instructions for the agent from the phase's prompt template
+   */
+  private buildInstructions(
+    policies: PolicyEngine,
+    issue: BeadsIssue,
+    policy: string,
+    phase: string,
+    attempt: number,
+    handoff: string = ""
+  ): string {
+    const policyConfig = policies.getPolicy(policy);
+    const phaseConfig = policies.getPhaseConfig(policy, phase);
 
-${phaseConfig?.require_approval ? "\n⚠️ This phase requires human approval before proceeding.\n" : ""}
-`.trim();
+    const template = loadPromptTemplate(phaseConfig?.prompt_template);
+    const prompt = renderPromptTemplate(template, {
+      issue: {
+        id: issue.id,
+        title: issue.title,
+        description: issue.description,
+        type: issue.issue_type,
+        priority: issue.priority,
+        status: issue.status,
+        labels: issue.labels?.join(", "),
+      },
+      policy: {
+        name: policy,
+        description: policyConfig?.description,
+      },
+      phase: {
+        name: phase,
+        description: phaseConfig?.description,
+        capabilities:
+          phaseConfig?.capabilities?.map((cap) => `- ${cap}`).join("\n") ||
+          "None specified",
+        approval_notice: phaseConfig?.require_approval
+          ? "⚠️ This phase requires human approval before proceeding."
+          : "",
+      },
+      attempt,
+      max_attempts: policyConfig?.retry?.max_attempts ?? 3,
+      handoff,
+      repo: getRepoInfo(),
+    });
+
+    // The result block is the agent contract, so templates cannot drop it
+    return `${prompt}\n\n${RESULT_BLOCK_INSTRUCTIONS}`;
   }
 
   /**
@@ -329,30 +1552,37 @@ ${phaseConfig?.require_approval ? "\n⚠️ This phase requires human approval b
   ): Promise<void> {
     switch (transition.type) {
       case "advance":
-        await updateIssue(issueId, { status: "open" });
+        await this.issues.updateIssue(issueId, { status: "open" });
         console.log(
           `Advanced to next phase: ${transition.next_phase || "unknown"}`
         );
         break;
 
       case "retry":
-        await updateIssue(issueId, { status: "open" });
+        await this.issues.updateIssue(issueId, { status: "open" });
         console.log(`Retrying phase: ${transition.reason}`);
         break;
 
       case "block":
-        await updateIssue(issueId, { status: "blocked" });
+        await this.issues.updateIssue(issueId, { status: "blocked" });
         console.log(`Blocked issue: ${transition.reason}`);
         break;
 
       case "close":
-        await updateIssue(issueId, { status: "closed" });
+        await this.issues.updateIssue(issueId, { status: "closed" });
         console.log(`Closed issue: ${transition.reason}`);
         break;
     }
   }
 }
 
+/**
+ * Generate a unique run id
+ */
+function createRunId(): string {
+  return `run-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+}
+
 /**
  * Create a singleton Worker Engine instance
  */
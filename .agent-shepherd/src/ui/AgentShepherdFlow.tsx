@@ -36,8 +36,16 @@ interface PhaseData {
   capabilities?: string[];
   status: string;
   runCount: number;
+  group?: {
+    name: string;
+    quorum: number;
+    size: number;
+  };
 }
 
+// Vertical spacing between the branches of a parallel group
+const PHASE_ROW_HEIGHT = 260;
+
 interface PhaseNode extends Node {
   data: PhaseData;
 }
@@ -99,6 +107,19 @@ const PhaseNodeComponent: React.FC<NodeProps<PhaseData>> = ({ data }) => {
         </div>
       </div>
 
+      {data.group && (
+        <div style={{
+          marginBottom: '12px',
+          fontSize: '11px',
+          fontWeight: '600',
+          color: isDark ? '#93c5fd' : '#2563eb',
+          textTransform: 'uppercase',
+          letterSpacing: '0.05em'
+        }}>
+          Parallel in {data.group.name} · quorum {data.group.quorum}/{data.group.size}
+        </div>
+      )}
+
       {data.description && (
         <p style={{
           margin: '0 0 12px 0',
@@ -193,10 +214,144 @@ interface Policy {
   isDefault: boolean;
 }
 
+interface Question {
+  id: string;
+  issue_id: string;
+  phase: string;
+  agent_id: string;
+  question: string;
+  options?: string[];
+  created_at: number;
+}
+
 const nodeTypes = {
   phase: PhaseNodeComponent,
 };
 
+// Questions agents asked that wait for a human's answer
+const QuestionsPanel: React.FC<{ isDark: boolean; autoRefresh: boolean }> = ({ isDark, autoRefresh }) => {
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const loadQuestions = async (): Promise<void> => {
+    try {
+      const response = await fetch('/api/questions');
+      setQuestions(await response.json());
+    } catch (error) {
+      console.error('Error loading questions:', error);
+    }
+  };
+
+  const submitAnswer = async (question: Question): Promise<void> => {
+    const answer = (drafts[question.issue_id] || '').trim();
+    if (!answer) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/questions/${encodeURIComponent(question.issue_id)}/answer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ answer })
+      });
+      if (!response.ok) {
+        const body = await response.json();
+        setErrors({ ...errors, [question.issue_id]: body.error || 'Could not record the answer' });
+        return;
+      }
+      setDrafts({ ...drafts, [question.issue_id]: '' });
+      setErrors({ ...errors, [question.issue_id]: '' });
+      await loadQuestions();
+    } catch (error) {
+      console.error('Error answering question:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadQuestions();
+  }, []);
+
+  useEffect(() => {
+    if (autoRefresh) {
+      const interval = setInterval(loadQuestions, 5000);
+      return () => clearInterval(interval);
+    }
+    return;
+  }, [autoRefresh]);
+
+  if (questions.length === 0) {
+    return null;
+  }
+
+  const border = `1px solid ${isDark ? '#334155' : '#e2e8f0'}`;
+  const fieldBackground = isDark ? '#0f172a' : '#f8fafc';
+
+  // Group members that asked at once are answered one at a time, oldest first
+  const nextPerIssue = questions.filter(
+    (question, index) => questions.findIndex(q => q.issue_id === question.issue_id) === index
+  );
+
+  return (
+    <div style={{
+      position: 'absolute',
+      bottom: 10,
+      left: 10,
+      zIndex: 1000,
+      background: isDark ? '#1e293b' : 'white',
+      padding: '15px',
+      borderRadius: '8px',
+      boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+      width: '360px',
+      maxHeight: '45vh',
+      overflowY: 'auto',
+      color: isDark ? '#e2e8f0' : '#1e293b'
+    }}>
+      <h4 style={{ margin: '0 0 10px 0', color: 'inherit' }}>Questions ({questions.length})</h4>
+      {nextPerIssue.map(question => (
+        <div key={question.id} style={{ borderTop: border, paddingTop: '8px', marginTop: '8px' }}>
+          <div style={{ fontSize: '12px', opacity: 0.7 }}>
+            {question.issue_id} · {question.phase} · {question.agent_id}
+          </div>
+          <p style={{ margin: '6px 0', color: 'inherit' }}>{question.question}</p>
+          {question.options && question.options.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginBottom: '6px' }}>
+              {question.options.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setDrafts({ ...drafts, [question.issue_id]: option })}
+                  style={{ padding: '2px 8px', borderRadius: '6px', border, background: fieldBackground, cursor: 'pointer', color: 'inherit' }}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          )}
+          <div style={{ display: 'flex', gap: '6px' }}>
+            <input
+              value={drafts[question.issue_id] || ''}
+              onChange={(e) => setDrafts({ ...drafts, [question.issue_id]: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && submitAnswer(question)}
+              placeholder="Answer"
+              style={{ flex: 1, padding: '4px', background: fieldBackground, color: 'inherit', border }}
+            />
+            <button
+              onClick={() => submitAnswer(question)}
+              disabled={!(drafts[question.issue_id] || '').trim()}
+              style={{ padding: '4px 12px', borderRadius: '6px', border, background: fieldBackground, cursor: 'pointer', color: 'inherit' }}
+            >
+              Answer
+            </button>
+          </div>
+          {errors[question.issue_id] && (
+            <div style={{ marginTop: '4px', fontSize: '12px', color: '#ef4444' }}>{errors[question.issue_id]}</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
 const AgentShepherdFlow: React.FC = () => {
   const [nodes, setNodes] = useState<(PhaseNode | RunNode)[]>([]);
   const [edges, setEdges] = useState<Edge[]>([]);
@@ -242,15 +397,31 @@ const AgentShepherdFlow: React.FC = () => {
       const runs = await runsResponse.json();
       const phases = await phasesResponse.json();
 
+      // Lay phases out in columns; the members of a parallel group are
+      // stacked as branches in their group's column
+      const columns: any[][] = phases.map((phase: any) => phase.members || [phase]);
+      const layout: Record<string, { column: number; row: number; group?: any }> = {};
+      columns.forEach((column, columnIndex) => {
+        column.forEach((phase, row) => {
+          layout[phase.id] = {
+            column: columnIndex,
+            row,
+            group: phases[columnIndex].members ? phases[columnIndex] : undefined
+          };
+        });
+      });
+      const rowCount = Math.max(1, ...columns.map(column => column.length));
+
       // Create phase nodes
-      const phaseNodes: PhaseNode[] = phases.map((phase: any, index: number) => {
+      const phaseNodes: PhaseNode[] = columns.flat().map((phase: any) => {
         const nodeId = `phase-${phase.id}`;
         const savedPosition = nodePositionsRef.current[nodeId];
+        const { column, row, group } = layout[phase.id];
         
         return {
           id: nodeId,
           type: 'phase',
-          position: savedPosition || { x: 50 + (index * 350), y: 100 },
+          position: savedPosition || { x: 50 + (column * 350), y: 100 + (row * PHASE_ROW_HEIGHT) },
           draggable: true,
           data: {
             id: phase.id,
@@ -258,7 +429,8 @@ const AgentShepherdFlow: React.FC = () => {
             description: phase.description,
             capabilities: phase.capabilities,
             status: phase.status,
-            runCount: runs.filter((r: Run) => r.phase === phase.id).length
+            runCount: runs.filter((r: Run) => r.phase === phase.id).length,
+            group: group && { name: group.name, quorum: group.quorum, size: group.members.length }
           }
         };
       });
@@ -266,15 +438,16 @@ const AgentShepherdFlow: React.FC = () => {
       // Create run nodes positioned below their respective phases
       const runNodes: RunNode[] = runs.map((run: Run) => {
         const savedPosition = nodePositionsRef.current[run.id];
-        const phaseIndex = phases.findIndex((p: any) => p.id === run.phase);
+        const phaseIndex = layout[run.phase]?.column ?? -1;
         const phaseX = 50 + (phaseIndex * 350);
+        const runsY = 300 + (rowCount - 1) * PHASE_ROW_HEIGHT;
         const runsInPhase = runs.filter((r: Run) => r.phase === run.phase);
         const runIndexInPhase = runsInPhase.findIndex((r: Run) => r.id === run.id);
         
         return {
           id: run.id,
           type: 'default',
-          position: savedPosition || { x: phaseX + (runIndexInPhase % 3) * 110, y: 300 + Math.floor(runIndexInPhase / 3) * 80 },
+          position: savedPosition || { x: phaseX + (runIndexInPhase % 3) * 110, y: runsY + Math.floor(runIndexInPhase / 3) * 80 },
           draggable: true,
           data: {
             label: `${run.agentId}`,
@@ -283,16 +456,21 @@ const AgentShepherdFlow: React.FC = () => {
         };
       });
 
-      // Create edges between phases
+      // Create edges between phases, fanning out to and in from the
+      // branches of parallel groups
       const phaseEdges: Edge[] = [];
-      for (let i = 0; i < phases.length - 1; i++) {
-        phaseEdges.push({
-          id: `phase-edge-${i}`,
-          source: `phase-${phases[i].id}`,
-          target: `phase-${phases[i + 1].id}`,
-          animated: true,
-          style: { stroke: '#94a3b8' }
-        });
+      for (let i = 0; i < columns.length - 1; i++) {
+        for (const source of columns[i]) {
+          for (const target of columns[i + 1]) {
+            phaseEdges.push({
+              id: `phase-edge-${source.id}-${target.id}`,
+              source: `phase-${source.id}`,
+              target: `phase-${target.id}`,
+              animated: true,
+              style: { stroke: '#94a3b8' }
+            });
+          }
+        }
       }
 
       // Create edges from phases to runs
@@ -488,6 +666,8 @@ const AgentShepherdFlow: React.FC = () => {
         </div>
       )}
 
+      <QuestionsPanel isDark={colorMode === 'dark'} autoRefresh={autoRefresh} />
+
       <ReactFlowProvider>
         <ReactFlow
           nodes={nodes.map(node => {
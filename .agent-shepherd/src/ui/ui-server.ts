@@ -4,7 +4,9 @@ import { readFileSync, existsSync } from 'fs';
 import { Server } from 'http';
 import { spawn } from 'child_process';
 import { fileURLToPath } from 'url';
-import { getPolicyEngine } from '../core/policy';
+import { getPolicyEngine, type PhaseConfig } from '../core/policy';
+import { getLogger } from '../core/logging';
+import { getWorkerEngine } from '../core/worker-engine';
 
 // Get directory where this module is located
 const __filename = fileURLToPath(import.meta.url);
@@ -81,6 +83,7 @@ export class UIServer {
 
     // Serve static files from the UI directory
     this.app.use(express.static(PROJECT_ROOT));
+    this.app.use(express.json());
 
     // API routes
     this.app.get('/api/health', (_req, res) => {
@@ -133,14 +136,23 @@ export class UIServer {
           return res.status(404).json({ error: 'Policy not found' });
         }
 
-        const phases = policy.phases.map(phase => ({
+        const toPhase = (phase: PhaseConfig) => ({
           id: phase.name,
           name: phase.name,
           description: phase.description || '',
           capabilities: phase.capabilities || [],
           timeout_multiplier: phase.timeout_multiplier || 1.0,
           status: 'idle' // TODO: Get real status from runs
-        }));
+        });
+
+        // Parallel groups carry their members as branches
+        const phases = policy.phases.map(phase => phase.parallel
+          ? {
+              ...toPhase(phase),
+              members: phase.parallel.map(toPhase),
+              quorum: policyEngine.getGroupQuorum(policyName, phase.name)
+            }
+          : toPhase(phase));
         res.json(phases);
         return;
       } catch (error) {
@@ -150,6 +162,37 @@ export class UIServer {
       }
     });
 
+    this.app.get('/api/questions', async (_req, res) => {
+      try {
+        res.json(getLogger().listQuestions({ status: 'pending' }));
+        return;
+      } catch (error) {
+        console.error('Error fetching questions:', error);
+        res.status(500).json({ error: 'Failed to fetch questions' });
+        return;
+      }
+    });
+
+    this.app.post('/api/questions/:issue/answer', async (req, res) => {
+      const answer = req.body?.answer;
+      if (typeof answer !== 'string' || !answer.trim()) {
+        return res.status(400).json({ error: 'answer is required' });
+      }
+
+      try {
+        const result = await getWorkerEngine().answerQuestion(req.params.issue, {
+          answer,
+          answered_by: 'ui',
+        });
+        res.json(result);
+        return;
+      } catch (error) {
+        // The issue has nothing to answer
+        res.status(409).json({ error: error instanceof Error ? error.message : String(error) });
+        return;
+      }
+    });
+
     // Serve React app
     this.app.get('/', (_req, res) => {
       try {
@@ -133,6 +133,133 @@ agents:
     });
   });
 
+  describe('Load Balancing', () => {
+    const withStrategy = (strategy: 'priority' | 'round_robin' | 'least_loaded' | 'weighted_random') => {
+      const registry = new AgentRegistry(agentsPath, { version: '1.0', agent_selection: { strategy } });
+      registry.registerAgent({ ...registry.getAgent('architect-expert')!, max_concurrent: 1 });
+      return registry;
+    };
+    const select = (registry: AgentRegistry) =>
+      registry.selectAgent({ required_capabilities: ['planning'] })?.id;
+
+    it('should skip agents at their max_concurrent limit', () => {
+      const registry = withStrategy('priority');
+
+      registry.acquire('architect-expert', 'run-1');
+      expect(registry.hasCapacity('architect-expert')).toBe(false);
+      expect(select(registry)).toBe('default-coder');
+
+      registry.release('run-1');
+      expect(select(registry)).toBe('architect-expert');
+    });
+
+    it('should notify release listeners until they unsubscribe', () => {
+      const registry = withStrategy('priority');
+      let releases = 0;
+      const unsubscribe = registry.onRelease(() => releases++);
+
+      registry.acquire('architect-expert', 'run-1');
+      registry.release('run-1');
+      registry.release('run-1');
+      expect(releases).toBe(1);
+
+      unsubscribe();
+      registry.acquire('architect-expert', 'run-2');
+      registry.release('run-2');
+      expect(releases).toBe(1);
+    });
+
+    it('should rotate through matching agents with round_robin', () => {
+      const registry = withStrategy('round_robin');
+      expect([select(registry), select(registry), select(registry)])
+        .toEqual(['architect-expert', 'default-coder', 'architect-expert']);
+
+      registry.acquire('architect-expert', 'run-1');
+      expect([select(registry), select(registry)]).toEqual(['default-coder', 'default-coder']);
+    });
+
+    it('should prefer the agent with the fewest runs in flight with least_loaded', () => {
+      const registry = withStrategy('least_loaded');
+      registry.registerAgent({ ...registry.getAgent('architect-expert')!, max_concurrent: 2 });
+
+      registry.acquire('architect-expert', 'run-1');
+      expect(select(registry)).toBe('default-coder');
+
+      registry.acquire('default-coder', 'run-2');
+      expect(select(registry)).toBe('architect-expert');
+      expect(registry.getInFlightCount('default-coder')).toBe(1);
+    });
+
+    it('should pick at random weighted by priority with weighted_random', () => {
+      const registry = withStrategy('weighted_random');
+
+      registry['random'] = () => 0.5;
+      expect(select(registry)).toBe('architect-expert');
+      registry['random'] = () => 0.9;
+      expect(select(registry)).toBe('default-coder');
+    });
+
+    it('should never pick a zero-weight agent unless every weight is zero', () => {
+      const registry = withStrategy('weighted_random');
+      registry.registerAgent({ ...registry.getAgent('default-coder')!, priority: 0 });
+
+      registry['random'] = () => 0.99;
+      expect(select(registry)).toBe('architect-expert');
+
+      registry.registerAgent({ ...registry.getAgent('architect-expert')!, priority: -5 });
+      registry['random'] = () => 0.1;
+      expect(select(registry)).toBe('default-coder');
+      registry['random'] = () => 0.9;
+      expect(select(registry)).toBe('architect-expert');
+    });
+
+    it('should reject an invalid max_concurrent', () => {
+      expect(() => agentRegistry.registerAgent({ id: 'x', name: 'X', capabilities: ['coding'], max_concurrent: 0 }))
+        .toThrow("Agent 'x' must have a max_concurrent of at least 1");
+    });
+  });
+
+  describe('Fallback', () => {
+    const fallbackConfig = {
+      version: '1.0',
+      fallback: {
+        enabled: true,
+        default_agent: 'default-coder',
+        mappings: { security: 'architect-expert' }
+      }
+    };
+    const policy = { name: 'Default', phases: [], fallback_mappings: { security: 'test-specialist' } };
+
+    it('should cascade from phase to policy to global fallbacks', () => {
+      const registry = new AgentRegistry(agentsPath, fallbackConfig);
+
+      expect(registry.resolveFallbackAgent('security', policy, { name: 'audit', fallback_agent: 'architect-expert' }))
+        .toMatchObject({ level: 'phase', reason: "fallback_agent of phase 'audit'" });
+      expect(registry.resolveFallbackAgent('security', policy, { name: 'audit' })?.agent.id).toBe('test-specialist');
+      expect(registry.resolveFallbackAgent('security', null, { name: 'audit' }))
+        .toMatchObject({ agent: { id: 'architect-expert' }, level: 'global' });
+      expect(registry.resolveFallbackAgent('billing', null, null))
+        .toMatchObject({ agent: { id: 'default-coder' }, reason: 'global default_agent' });
+      expect(registry.resolveFallbackAgent('billing', null, { name: 'audit', fallback_enabled: false })).toBeNull();
+    });
+
+    it('should only fall back when enabled globally', () => {
+      const registry = new AgentRegistry(agentsPath, { version: '1.0', fallback: { enabled: false, default_agent: 'default-coder' } });
+
+      expect(registry.resolveFallbackAgent('billing', null, null)).toBeNull();
+      expect(registry.selectFallbackAgent(['billing'])).toBeNull();
+    });
+
+    it('should fall back for the capabilities no active agent provides', () => {
+      const registry = new AgentRegistry(agentsPath, fallbackConfig);
+
+      expect(registry.selectFallbackAgent(['coding', 'security'], policy))
+        .toMatchObject({ agent: { id: 'test-specialist' }, capability: 'security', level: 'policy' });
+      expect(registry.selectFallbackAgent(['coding', 'testing']))
+        .toMatchObject({ agent: { id: 'default-coder' }, capability: 'coding' });
+    });
+  });
+
   describe('OpenCode Sync', () => {
     it('should have syncWithOpenCode method', async () => {
       // Test that the method exists and can be called
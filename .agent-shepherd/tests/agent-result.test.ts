@@ -0,0 +1,69 @@
+/**
+ * Tests for agent result block parsing
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { parseAgentResult } from '../src/core/agent-result.ts';
+
+const block = (data: unknown) => '```json\n' + JSON.stringify(data, null, 2) + '\n```';
+
+describe('parseAgentResult', () => {
+  it('should parse a valid result block', () => {
+    const message = `Done with the work.\n\n${block({
+      status: 'success',
+      summary: 'Implemented the parser',
+      requires_approval: true,
+      changed_files: ['src/parser.ts'],
+      follow_ups: [{ title: 'Add docs', priority: 3 }]
+    })}`;
+
+    const parsed = parseAgentResult(message);
+
+    expect(parsed.error_code).toBeUndefined();
+    expect(parsed.result?.status).toBe('success');
+    expect(parsed.result?.requires_approval).toBe(true);
+    expect(parsed.result?.changed_files).toEqual(['src/parser.ts']);
+    expect(parsed.result?.follow_ups?.[0].title).toBe('Add docs');
+  });
+
+  it('should use the last JSON block in the message', () => {
+    const message = [
+      block({ example: true }),
+      'Final result:',
+      block({ status: 'failure', summary: 'Tests did not pass', error: '2 failing tests' })
+    ].join('\n');
+
+    const parsed = parseAgentResult(message);
+
+    expect(parsed.result?.status).toBe('failure');
+    expect(parsed.result?.error).toBe('2 failing tests');
+  });
+
+  it('should parse a question for a human', () => {
+    const parsed = parseAgentResult(block({
+      status: 'question',
+      summary: 'Need a decision',
+      question: { text: 'Which database?', options: ['PostgreSQL', 'SQLite'] }
+    }));
+
+    expect(parsed.result?.status).toBe('question');
+    expect(parsed.result?.question).toEqual({ text: 'Which database?', options: ['PostgreSQL', 'SQLite'] });
+
+    const unasked = parseAgentResult(block({ status: 'question', summary: 'Need a decision' }));
+    expect(unasked.error_code).toBe('INVALID_RESULT_BLOCK');
+    expect(unasked.error).toContain('requires a question');
+  });
+
+  it('should report a missing result block', () => {
+    expect(parseAgentResult('All done!').error_code).toBe('MISSING_RESULT_BLOCK');
+    expect(parseAgentResult(undefined).error_code).toBe('MISSING_RESULT_BLOCK');
+  });
+
+  it('should report malformed or schema-invalid blocks', () => {
+    expect(parseAgentResult('```json\n{ not json }\n```').error_code).toBe('INVALID_RESULT_BLOCK');
+
+    const parsed = parseAgentResult(block({ status: 'done', summary: 'x' }));
+    expect(parsed.error_code).toBe('INVALID_RESULT_BLOCK');
+    expect(parsed.error).toContain('/status');
+  });
+});
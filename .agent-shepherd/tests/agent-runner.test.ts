@@ -0,0 +1,118 @@
+/**
+ * Tests for Agent Runners
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { getAgentRunner } from '../src/core/agent-runner.ts';
+import { ShellRunner, renderCommand } from '../src/core/shell-runner.ts';
+import type { AgentConfig } from '../src/core/agent-registry.ts';
+
+function shellAgent(command: string): AgentConfig {
+  return {
+    id: 'shell-agent',
+    name: 'Shell Agent',
+    capabilities: ['coding'],
+    runtime: 'shell',
+    command,
+  };
+}
+
+describe('renderCommand', () => {
+  it('should substitute shell-quoted placeholders', () => {
+    const command = renderCommand('tool --agent {{agent_id}} --title {{ title }} {{missing}}', {
+      agent_id: 'coder',
+      title: "it's done",
+    });
+
+    expect(command).toBe(`tool --agent 'coder' --title 'it'\\''s done' ''`);
+  });
+});
+
+describe('ShellRunner', () => {
+  it('should pipe instructions to the command and return its output', async () => {
+    const runner = new ShellRunner();
+    const chunks: string[] = [];
+
+    const result = await runner.run({
+      run_id: 'run-1',
+      agent: shellAgent('printf "%s:" {{issue_id}}; cat'),
+      title: 'Test',
+      message: 'do the work',
+      variables: { issue_id: 'issue-1' },
+      onOutput: (chunk) => chunks.push(chunk),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('issue-1:do the work');
+    expect(result.events?.message).toBe('issue-1:do the work');
+    expect(chunks.join('')).toBe('issue-1:do the work');
+  });
+
+  it('should fail on a non-zero exit code', async () => {
+    const result = await new ShellRunner().run({
+      run_id: 'run-1',
+      agent: shellAgent('echo broken >&2; exit 3'),
+      title: 'Test',
+      message: '',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('broken');
+  });
+
+  it('should fail agents without a command', async () => {
+    const result = await new ShellRunner().run({
+      run_id: 'run-1',
+      agent: { id: 'shell-agent', name: 'Shell Agent', capabilities: ['coding'], runtime: 'shell' },
+      title: 'Test',
+      message: '',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('no command');
+  });
+
+  it('should kill commands that exceed their timeout', async () => {
+    const started = Date.now();
+    const result = await new ShellRunner().run({
+      run_id: 'run-1',
+      agent: shellAgent('sleep 30'),
+      title: 'Test',
+      message: '',
+      timeoutMs: 200,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.timed_out).toBe(true);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('should stream output and abort in-flight runs', async () => {
+    const runner = new ShellRunner();
+    const running = runner.run({
+      run_id: 'run-1',
+      agent: shellAgent('echo started; sleep 30'),
+      title: 'Test',
+      message: '',
+    });
+
+    const streamed: string[] = [];
+    for await (const chunk of runner.stream('run-1')) {
+      streamed.push(chunk);
+      expect(await runner.abort('run-1')).toBe(true);
+    }
+
+    const result = await running;
+    expect(streamed.join('')).toContain('started');
+    expect(result.aborted).toBe(true);
+    expect(await runner.abort('run-1')).toBe(false);
+  });
+});
+
+describe('getAgentRunner', () => {
+  it('should return one runner per runtime', () => {
+    expect(getAgentRunner().runtime).toBe('opencode');
+    expect(getAgentRunner('shell').runtime).toBe('shell');
+    expect(getAgentRunner('shell')).toBe(getAgentRunner('shell'));
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for Config Reloader
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { ConfigReloader } from '../src/core/config-reloader.ts';
+import { PolicyEngine } from '../src/core/policy.ts';
+import { AgentRegistry } from '../src/core/agent-registry.ts';
+import { Logger } from '../src/core/logging.ts';
+import type { AgentShepherdConfig } from '../src/core/config.ts';
+import { writeFileSync, rmSync, mkdirSync } from 'fs';
+import { join } from 'path';
+
+const policies = (phases: string) => `
+policies:
+  default:
+    name: "Default Policy"
+    phases:
+${phases}
+default_policy: default
+`;
+
+describe('ConfigReloader', () => {
+  let tempDir: string;
+  let logger: Logger;
+  let policyEngine: PolicyEngine;
+  let agentRegistry: AgentRegistry;
+  let reloader: ConfigReloader;
+
+  beforeEach(() => {
+    tempDir = join(process.cwd(), 'temp-reload-test');
+    mkdirSync(tempDir, { recursive: true });
+    writeFileSync(join(tempDir, 'config.yaml'), 'version: "1.0"\nworker:\n  poll_interval_ms: 30000\n');
+    writeFileSync(join(tempDir, 'policies.yaml'), policies('      - name: implement'));
+    writeFileSync(
+      join(tempDir, 'agents.yaml'),
+      'version: "1.0"\nagents:\n  - id: coder\n    name: Coder\n    capabilities: [coding]\n'
+    );
+
+    logger = new Logger(join(tempDir, 'data'));
+    policyEngine = new PolicyEngine(join(tempDir, 'policies.yaml'));
+    agentRegistry = new AgentRegistry(join(tempDir, 'agents.yaml'));
+    reloader = new ConfigReloader(tempDir, { policyEngine, agentRegistry, logger });
+  });
+
+  afterEach(() => {
+    reloader.stop();
+    logger.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should swap in a valid policies file and log the reload', async () => {
+    writeFileSync(join(tempDir, 'policies.yaml'), policies('      - name: implement\n      - name: review'));
+
+    const result = await reloader.reload('policies.yaml');
+
+    expect(result).toEqual({ file: 'policies.yaml', applied: true, errors: [] });
+    expect(policyEngine.getPhaseSequence('default')).toEqual(['implement', 'review']);
+    expect(policyEngine.getVersion()).toBe(2);
+
+    const [decision] = logger.getDecisions('');
+    expect(decision.type).toBe('config_reload');
+    expect(decision.decision).toBe('applied');
+    expect(decision.metadata?.policy_version).toBe(2);
+  });
+
+  it('should keep the running policies when a change fails validation', async () => {
+    writeFileSync(join(tempDir, 'policies.yaml'), policies('      - name: implement\n        timeout_multiplier: fast'));
+    const schemaError = await reloader.reload('policies.yaml');
+
+    writeFileSync(join(tempDir, 'policies.yaml'), policies('      - name: implement\n        on_failure: nowhere'));
+    const loadError = await reloader.reload('policies.yaml');
+
+    expect(schemaError.applied).toBe(false);
+    expect(schemaError.errors[0]).toContain('must be number');
+    expect(loadError.applied).toBe(false);
+    expect(loadError.errors[0]).toContain("on_failure target 'nowhere'");
+    expect(policyEngine.getPhaseConfig('default', 'implement')).toEqual({ name: 'implement' });
+    expect(policyEngine.getVersion()).toBe(1);
+    expect(logger.getDecisions('').map((decision) => decision.decision)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('should leave snapshots of earlier versions untouched', async () => {
+    const pinned = policyEngine.snapshot();
+    writeFileSync(join(tempDir, 'policies.yaml'), policies('      - name: plan\n      - name: implement'));
+
+    await reloader.reload('policies.yaml');
+
+    expect(pinned.getPhaseSequence('default')).toEqual(['implement']);
+    expect(policyEngine.getPhaseSequence('default')).toEqual(['plan', 'implement']);
+  });
+
+  it('should reload agents and notify listeners of config changes', async () => {
+    const received: AgentShepherdConfig[] = [];
+    reloader.onConfigChange((config) => received.push(config));
+
+    writeFileSync(
+      join(tempDir, 'config.yaml'),
+      'version: "1.0"\nworker:\n  max_concurrent_runs: 8\nfallback:\n  enabled: true\n  default_agent: reviewer\n'
+    );
+    writeFileSync(
+      join(tempDir, 'agents.yaml'),
+      'version: "1.0"\nagents:\n  - id: reviewer\n    name: Reviewer\n    capabilities: [review]\n'
+    );
+    await reloader.reload('config.yaml');
+    await reloader.reload('agents.yaml');
+
+    expect(received[0].worker?.max_concurrent_runs).toBe(8);
+    expect(received[0].worker?.poll_interval_ms).toBe(30000);
+    expect(agentRegistry.getAgentIds()).toEqual(['reviewer']);
+    expect(agentRegistry.resolveFallbackAgent('coding')?.agent.id).toBe('reviewer');
+  });
+
+  it('should reload files when they change on disk', async () => {
+    reloader.start();
+    writeFileSync(join(tempDir, 'policies.yaml'), policies('      - name: implement\n      - name: test'));
+
+    const deadline = Date.now() + 3000;
+    while (policyEngine.getVersion() < 2 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    expect(policyEngine.getPhaseSequence('default')).toEqual(['implement', 'test']);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for phase quality gates
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { runGates } from '../src/core/gates.ts';
+
+describe('runGates', () => {
+  it('should run all gates when they pass', async () => {
+    const results = await runGates(
+      [
+        { name: 'echo', command: 'echo ok' },
+        { command: 'true' }
+      ],
+      process.cwd()
+    );
+
+    expect(results).toHaveLength(2);
+    expect(results.every((r) => r.passed)).toBe(true);
+    expect(results[0].output).toContain('ok');
+    expect(results[1].name).toBe('true');
+  });
+
+  it('should stop at the first failing gate', async () => {
+    const results = await runGates(
+      [
+        { name: 'fails', command: 'echo broken >&2; exit 3' },
+        { name: 'skipped', command: 'true' }
+      ],
+      process.cwd()
+    );
+
+    expect(results).toHaveLength(1);
+    expect(results[0].passed).toBe(false);
+    expect(results[0].exit_code).toBe(3);
+    expect(results[0].output).toContain('broken');
+  });
+
+  it('should fail gates that exceed their timeout', async () => {
+    const results = await runGates(
+      [{ name: 'slow', command: 'sleep 5', timeout_ms: 100 }],
+      process.cwd()
+    );
+
+    expect(results[0].passed).toBe(false);
+    expect(results[0].timed_out).toBe(true);
+  });
+});
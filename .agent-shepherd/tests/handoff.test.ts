@@ -0,0 +1,164 @@
+/**
+ * Tests for Phase Handoff
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { buildHandoff, DEFAULT_HANDOFF_CONFIG } from '../src/core/handoff.ts';
+import type { RunRecord } from '../src/core/logging.ts';
+
+let clock = 1000;
+
+function run(phase: string, status: RunRecord['status'], fields: Partial<RunRecord> = {}): RunRecord {
+  clock += 1000;
+  return {
+    id: `run-${clock}`,
+    issue_id: 'issue-1',
+    session_id: '',
+    agent_id: 'coder',
+    policy_name: 'default',
+    phase,
+    status,
+    created_at: clock,
+    updated_at: clock,
+    ...fields,
+  };
+}
+
+describe('buildHandoff', () => {
+  it('should summarize the latest completed run of each earlier phase', () => {
+    const runs = [
+      run('plan', 'completed', { outcome: { success: true, message: 'Old plan' } }),
+      run('plan', 'completed', {
+        outcome: {
+          success: true,
+          message: 'Planned the change',
+          follow_ups: [{ title: 'Check the docs', description: 'They mention the old flag' }],
+        },
+      }),
+      run('implement', 'failed', {
+        outcome: { success: false, error: 'Gate failed', error_code: 'GATE_FAILED' },
+        metadata: {
+          gates: [{ name: 'tests', command: 'bun test', passed: false, exit_code: 1, timed_out: false, duration_ms: 5, output: 'boom' }],
+        },
+      }),
+      run('implement', 'completed', {
+        outcome: { success: true, message: 'Implemented it', artifacts: ['src/a.ts'] },
+      }),
+    ];
+
+    const handoff = buildHandoff(runs, { phase: 'test', config: DEFAULT_HANDOFF_CONFIG });
+
+    expect(handoff).toContain('## Previous Phases');
+    expect(handoff).not.toContain('Old plan');
+    expect(handoff.indexOf('### plan')).toBeLessThan(handoff.indexOf('### implement'));
+    expect(handoff).toContain('Planned the change');
+    expect(handoff).toContain('- Check the docs: They mention the old flag');
+    expect(handoff).toContain('- src/a.ts');
+    expect(handoff).toContain('- tests: exit code 1');
+    expect(handoff).not.toContain('## Previous Attempt');
+  });
+
+  it('should include the failure of the previous attempt on a retry', () => {
+    const runs = [
+      run('implement', 'failed', {
+        outcome: { success: false, error: "Gate 'tests' failed with exit code 1", error_code: 'GATE_FAILED' },
+        metadata: {
+          gates: [{ name: 'tests', command: 'bun test', passed: false, exit_code: 1, timed_out: false, duration_ms: 5, output: '1 fail' }],
+        },
+      }),
+    ];
+
+    const handoff = buildHandoff(runs, {
+      phase: 'implement',
+      phase_started_at: 0,
+      config: DEFAULT_HANDOFF_CONFIG,
+    });
+
+    expect(handoff).toContain('## Previous Attempt');
+    expect(handoff).toContain("failed (GATE_FAILED): Gate 'tests' failed with exit code 1");
+    expect(handoff).toContain('1 fail');
+  });
+
+  it('should ignore failures from before the current attempt window', () => {
+    const failed = run('implement', 'failed', { outcome: { success: false, error: 'Old failure' } });
+
+    const handoff = buildHandoff([failed], {
+      phase: 'implement',
+      phase_started_at: failed.created_at + 1,
+      config: DEFAULT_HANDOFF_CONFIG,
+    });
+
+    expect(handoff).toBe('');
+  });
+
+  it('should keep the most recent phases within the size budget', () => {
+    const runs = ['plan', 'design', 'implement'].map((phase) =>
+      run(phase, 'completed', { outcome: { success: true, message: `${phase} `.repeat(60) } })
+    );
+
+    const handoff = buildHandoff(runs, {
+      phase: 'test',
+      config: { ...DEFAULT_HANDOFF_CONFIG, max_chars: 900 },
+    });
+
+    expect(handoff).toContain('### implement');
+    expect(handoff).toContain('### design');
+    expect(handoff).toContain('…[truncated]');
+    expect(handoff).not.toContain('### plan');
+    expect(handoff).toContain('1 earlier phase(s) omitted');
+  });
+
+  it('should only include the configured sections', () => {
+    const runs = [
+      run('implement', 'completed', {
+        outcome: { success: true, message: 'Implemented it', artifacts: ['src/a.ts'] },
+      }),
+    ];
+
+    const handoff = buildHandoff(runs, {
+      phase: 'test',
+      config: { ...DEFAULT_HANDOFF_CONFIG, include: ['changed_files'] },
+    });
+
+    expect(handoff).toContain('- src/a.ts');
+    expect(handoff).not.toContain('Implemented it');
+  });
+
+  it('should produce nothing when disabled', () => {
+    const runs = [run('plan', 'completed', { outcome: { success: true, message: 'Planned' } })];
+
+    expect(
+      buildHandoff(runs, { phase: 'implement', config: { ...DEFAULT_HANDOFF_CONFIG, enabled: false } })
+    ).toBe('');
+  });
+
+  it('should pass on review feedback even when disabled', () => {
+    const runs = [run('plan', 'completed', { outcome: { success: true, message: 'Planned' } })];
+    const rejection = { phase: 'review', reviewer: 'alice', note: 'Missing tests' };
+
+    const handoff = buildHandoff(runs, { phase: 'implement', config: DEFAULT_HANDOFF_CONFIG, rejection });
+    const disabled = buildHandoff(runs, {
+      phase: 'implement',
+      config: { ...DEFAULT_HANDOFF_CONFIG, enabled: false },
+      rejection,
+    });
+
+    expect(handoff).toStartWith("## Review Feedback\n\nThe result of phase 'review' was rejected by alice:\nMissing tests");
+    expect(handoff).toContain('## Previous Phases');
+    expect(disabled).not.toContain('## Previous Phases');
+    expect(disabled).toContain('Missing tests');
+  });
+
+  it('should pass on answers to the agent\'s questions even when disabled', () => {
+    const answers = [{ question: 'Which database?', answer: 'PostgreSQL', answered_by: 'alice' }];
+
+    const handoff = buildHandoff([], {
+      phase: 'implement',
+      config: { ...DEFAULT_HANDOFF_CONFIG, enabled: false },
+      answers,
+    });
+
+    expect(handoff).toStartWith('## Questions and Answers');
+    expect(handoff).toContain('Q: Which database?\nA (alice): PostgreSQL');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for Logger
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { Logger } from '../src/core/logging.ts';
+import { rmSync, mkdirSync } from 'fs';
+import { join } from 'path';
+
+describe('Logger', () => {
+  let logger: Logger;
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = join(process.cwd(), 'temp-logging-test');
+    mkdirSync(tempDir, { recursive: true });
+    logger = new Logger(tempDir);
+  });
+
+  afterEach(() => {
+    logger.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('Workflow State', () => {
+    it('should return null for issues without workflow state', () => {
+      expect(logger.getWorkflowState('issue-1')).toBeNull();
+    });
+
+    it('should save and update workflow state', () => {
+      const created = logger.saveWorkflowState({
+        issue_id: 'issue-1',
+        policy_name: 'default',
+        current_phase: 'plan',
+        attempt_count: 0,
+        status: 'active',
+      });
+
+      const updated = logger.saveWorkflowState({
+        issue_id: 'issue-1',
+        policy_name: 'default',
+        current_phase: 'implement',
+        attempt_count: 0,
+        last_run_id: 'run-123',
+        status: 'active',
+      });
+
+      expect(updated.created_at).toBe(created.created_at);
+
+      const state = logger.getWorkflowState('issue-1');
+      expect(state?.current_phase).toBe('implement');
+      expect(state?.last_run_id).toBe('run-123');
+    });
+
+    it('should restore workflow state from JSONL', () => {
+      logger.saveWorkflowState({
+        issue_id: 'issue-1',
+        policy_name: 'default',
+        current_phase: 'plan',
+        attempt_count: 0,
+        status: 'active',
+      });
+      logger.saveWorkflowState({
+        issue_id: 'issue-1',
+        policy_name: 'default',
+        current_phase: 'test',
+        attempt_count: 2,
+        status: 'blocked',
+      });
+      logger.close();
+
+      // Drop the SQLite cache so state is rebuilt from the JSONL log
+      rmSync(join(tempDir, 'runs.db'));
+      logger = new Logger(tempDir);
+
+      const state = logger.getWorkflowState('issue-1');
+      expect(state?.current_phase).toBe('test');
+      expect(state?.attempt_count).toBe(2);
+      expect(state?.status).toBe('blocked');
+    });
+  });
+
+  describe('Policy Versions', () => {
+    it('should keep the first version stored under a hash', () => {
+      const config = { name: 'Default', phases: [{ name: 'plan' }] };
+      logger.savePolicyVersion('abc123', 'default', config);
+      logger.savePolicyVersion('abc123', 'default', { name: 'Changed', phases: [] });
+      logger.close();
+
+      rmSync(join(tempDir, 'runs.db'));
+      logger = new Logger(tempDir);
+
+      expect(logger.getPolicyVersion('abc123')?.config).toEqual(config);
+      expect(logger.getPolicyVersion('unknown')).toBeNull();
+    });
+
+    it('should list workflow states by status', () => {
+      for (const [issue, status] of [['issue-1', 'active'], ['issue-2', 'completed'], ['issue-3', 'blocked']] as const) {
+        logger.saveWorkflowState({
+          issue_id: issue,
+          policy_name: 'default',
+          policy_hash: 'abc123',
+          current_phase: 'plan',
+          attempt_count: 0,
+          status,
+        });
+      }
+
+      const inFlight = logger.listWorkflowStates(['active', 'blocked']);
+      expect(inFlight.map((state) => state.issue_id)).toEqual(['issue-1', 'issue-3']);
+      expect(inFlight[0].policy_hash).toBe('abc123');
+    });
+  });
+
+  describe('Questions', () => {
+    it('should record one question per run and rebuild answers from JSONL', () => {
+      const asked = {
+        issue_id: 'issue-1',
+        run_id: 'run-1',
+        policy_name: 'default',
+        phase: 'implement',
+        agent_id: 'coder',
+        question: 'Which database?',
+        options: ['PostgreSQL', 'SQLite'],
+      };
+      const question = logger.createQuestion(asked);
+      expect(logger.createQuestion(asked).id).toBe(question.id);
+      expect(logger.getPendingQuestion('issue-1')?.options).toEqual(['PostgreSQL', 'SQLite']);
+
+      logger.updateQuestion(question.id, { status: 'answered', answer: 'PostgreSQL', answered_by: 'alice' });
+      logger.close();
+
+      rmSync(join(tempDir, 'runs.db'));
+      logger = new Logger(tempDir);
+
+      expect(logger.getPendingQuestion('issue-1')).toBeNull();
+      expect(logger.listQuestions({ issue_id: 'issue-1' })).toMatchObject([
+        { id: question.id, status: 'answered', answer: 'PostgreSQL', answered_by: 'alice' },
+      ]);
+    });
+
+    it('should list blocked runs whose question has no record', () => {
+      const run = { issue_id: 'issue-1', session_id: '', agent_id: 'coder', policy_name: 'default', phase: 'implement' };
+      const outcome = { success: false, question: { text: 'Which database?' } };
+      logger.createRun({ ...run, id: 'run-asked', status: 'blocked', outcome });
+      logger.createRun({ ...run, id: 'run-recorded', status: 'blocked', outcome });
+      logger.createRun({ ...run, id: 'run-approval', status: 'blocked', outcome: { success: true, requires_approval: true } });
+      logger.createRun({ ...run, id: 'run-running', status: 'running', outcome });
+      logger.createQuestion({ ...run, run_id: 'run-recorded', question: 'Which database?' });
+
+      expect(logger.listUnrecordedQuestionRuns().map((record) => record.id)).toEqual(['run-asked']);
+    });
+  });
+
+  describe('Heartbeats', () => {
+    it('should keep the pid when later heartbeats only report output', () => {
+      logger.recordHeartbeat({ run_id: 'run-1', pid: 4242, last_output_at: 1000 });
+      logger.recordHeartbeat({ run_id: 'run-1', last_output_at: 2000 });
+
+      const heartbeat = logger.getHeartbeat('run-1');
+      expect(heartbeat?.pid).toBe(4242);
+      expect(heartbeat?.last_output_at).toBe(2000);
+    });
+
+    it('should clear heartbeats', () => {
+      logger.recordHeartbeat({ run_id: 'run-1', pid: 4242, last_output_at: 1000 });
+      logger.clearHeartbeat('run-1');
+
+      expect(logger.getHeartbeat('run-1')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Tests for OpenCode client and event stream parsing
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { OpenCodeClient, parseEventStream, totalTokens } from '../src/core/opencode.ts';
+import { writeFileSync, rmSync, mkdirSync, chmodSync } from 'fs';
+import { join } from 'path';
+
+const lines = (...events: object[]) => events.map((e) => JSON.stringify(e)).join('\n');
+
+describe('parseEventStream', () => {
+  it('should extract message, artifacts and usage from events', () => {
+    const output = lines(
+      { type: 'step_start', timestamp: 1, sessionID: 'ses_1', part: { type: 'step-start' } },
+      {
+        type: 'tool_use',
+        timestamp: 2,
+        sessionID: 'ses_1',
+        part: {
+          type: 'tool',
+          callID: 'call_1',
+          tool: 'edit',
+          state: { status: 'completed', input: { filePath: 'src/app.ts' }, output: 'ok', title: 'src/app.ts' }
+        }
+      },
+      {
+        type: 'tool_use',
+        timestamp: 3,
+        sessionID: 'ses_1',
+        part: {
+          type: 'tool',
+          callID: 'call_2',
+          tool: 'read',
+          state: { status: 'completed', input: { filePath: 'README.md' }, output: '...', title: 'README.md' }
+        }
+      },
+      { type: 'text', timestamp: 4, sessionID: 'ses_1', part: { type: 'text', text: 'Updated app.ts' } },
+      {
+        type: 'step_finish',
+        timestamp: 5,
+        sessionID: 'ses_1',
+        part: {
+          type: 'step-finish',
+          reason: 'stop',
+          cost: 0.25,
+          tokens: { input: 100, output: 50, reasoning: 10, cache: { read: 500, write: 0 } }
+        }
+      }
+    );
+
+    const parsed = parseEventStream(output);
+
+    expect(parsed.sessionId).toBe('ses_1');
+    expect(parsed.message).toBe('Updated app.ts');
+    expect(parsed.toolCalls).toHaveLength(2);
+    expect(parsed.artifacts).toEqual(['src/app.ts']);
+    expect(parsed.cost).toBe(0.25);
+    expect(parsed.tokens.cache.read).toBe(500);
+    expect(totalTokens(parsed.tokens)).toBe(160);
+    expect(parsed.errors).toHaveLength(0);
+  });
+
+  it('should collect error events and skip non-JSON lines', () => {
+    const output = [
+      'Starting opencode...',
+      lines({
+        type: 'error',
+        timestamp: 1,
+        sessionID: 'ses_2',
+        error: { name: 'APIError', data: { message: 'Rate limited' } }
+      })
+    ].join('\n');
+
+    const parsed = parseEventStream(output);
+
+    expect(parsed.sessionId).toBe('ses_2');
+    expect(parsed.errors).toEqual(['Rate limited']);
+    expect(parsed.message).toBeUndefined();
+  });
+});
+
+describe('OpenCodeClient.runAgentCLI', () => {
+  const tempDir = join(process.cwd(), 'temp-opencode-test');
+  const binary = join(tempDir, 'opencode');
+
+  beforeAll(() => {
+    // Fake opencode binary whose child process hangs
+    mkdirSync(tempDir, { recursive: true });
+    writeFileSync(binary, '#!/bin/sh\nsleep 30 &\nwait\n');
+    chmodSync(binary, 0o755);
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should kill the agent when the timeout fires', async () => {
+    const client = new OpenCodeClient({ directory: tempDir, binary });
+    const start = Date.now();
+
+    const result = await client.runAgentCLI({ message: 'hang', timeoutMs: 200 });
+
+    expect(result.success).toBe(false);
+    expect(result.timed_out).toBe(true);
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+
+  it('should kill the agent when the signal aborts', async () => {
+    const client = new OpenCodeClient({ directory: tempDir, binary });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+
+    const result = await client.runAgentCLI({ message: 'hang', signal: controller.signal });
+
+    expect(result.success).toBe(false);
+    expect(result.aborted).toBe(true);
+    expect(result.timed_out).toBe(false);
+  });
+});
+
+describe('OpenCodeClient server transport', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let prompts: any[];
+  let aborted: string[];
+  let busyPolls: number;
+  let messages: any[];
+
+  const assistantMessage = {
+    info: { id: 'msg_2', sessionID: 'ses_test', role: 'assistant', time: { created: 2, completed: 3 } },
+    parts: [
+      {
+        id: 'prt_1',
+        type: 'tool',
+        callID: 'call_1',
+        tool: 'write',
+        state: { status: 'completed', input: { filePath: 'src/new.ts' }, output: '', title: 'src/new.ts' }
+      },
+      { id: 'prt_2', type: 'text', text: 'Wrote src/new.ts' },
+      {
+        id: 'prt_3',
+        type: 'step-finish',
+        reason: 'stop',
+        cost: 0.1,
+        tokens: { input: 10, output: 5, reasoning: 0, cache: { read: 0, write: 0 } }
+      }
+    ]
+  };
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const { pathname } = new URL(req.url);
+
+        if (req.method === 'POST' && pathname === '/session') {
+          const body = await req.json();
+          return Response.json({ id: 'ses_test', title: body.title, directory: '/tmp', time: { created: 1, updated: 1 } });
+        }
+        if (req.method === 'POST' && pathname === '/session/ses_test/prompt_async') {
+          prompts.push(await req.json());
+          messages = [{ info: { id: 'msg_1', sessionID: 'ses_test', role: 'user', time: { created: 1 } }, parts: [] }];
+          return new Response(null, { status: 204 });
+        }
+        if (req.method === 'GET' && pathname === '/session/status') {
+          if (busyPolls > 0) {
+            busyPolls--;
+            return Response.json({ ses_test: { type: 'busy' } });
+          }
+          messages = [messages[0], assistantMessage];
+          return Response.json({});
+        }
+        if (req.method === 'GET' && pathname === '/session/ses_test/message') {
+          return Response.json(messages);
+        }
+        if (req.method === 'POST' && pathname === '/session/ses_test/abort') {
+          aborted.push('ses_test');
+          return Response.json(true);
+        }
+        return new Response('Not found', { status: 404 });
+      }
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const createClient = () =>
+    new OpenCodeClient({ transport: 'server', serverUrl: `http://localhost:${server.port}`, pollIntervalMs: 10 });
+
+  it('should run an agent in a server session', async () => {
+    prompts = [];
+    aborted = [];
+    busyPolls = 2;
+    const sessions: string[] = [];
+
+    const result = await createClient().runAgent({
+      agent: 'build',
+      model: 'anthropic/claude-sonnet',
+      message: 'Do the work',
+      onSession: (id) => sessions.push(id)
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.sessionId).toBe('ses_test');
+    expect(sessions).toEqual(['ses_test']);
+    expect(prompts[0].agent).toBe('build');
+    expect(prompts[0].model).toEqual({ providerID: 'anthropic', modelID: 'claude-sonnet' });
+    expect(prompts[0].parts[0].text).toBe('Do the work');
+    expect(result.events?.message).toBe('Wrote src/new.ts');
+    expect(result.events?.artifacts).toEqual(['src/new.ts']);
+    expect(result.events?.cost).toBe(0.1);
+  });
+
+  it('should abort the session when the timeout fires', async () => {
+    prompts = [];
+    aborted = [];
+    busyPolls = Number.POSITIVE_INFINITY;
+
+    const result = await createClient().runAgent({ message: 'hang', timeoutMs: 100 });
+
+    expect(result.success).toBe(false);
+    expect(result.timed_out).toBe(true);
+    expect(aborted).toEqual(['ses_test']);
+  });
+
+  it('should keep a run on its server when the settings are reloaded', async () => {
+    prompts = [];
+    aborted = [];
+    busyPolls = 3;
+    const client = createClient();
+
+    const running = client.runAgent({ message: 'Do the work' });
+    client.updateConfig({ transport: 'server', serverUrl: 'http://127.0.0.1:1/' });
+    const result = await running;
+
+    expect(result.success).toBe(true);
+    expect(prompts).toHaveLength(1);
+
+    client.updateConfig({});
+    expect(client.getTransport()).toBe('cli');
+  });
+
+  it('should not leave abort listeners behind while polling', async () => {
+    busyPolls = 5;
+    messages = [{ info: { id: 'msg_1', sessionID: 'ses_test', role: 'user', time: { created: 1 } }, parts: [] }];
+    const controller = new AbortController();
+    let listeners = 0;
+    const add = controller.signal.addEventListener.bind(controller.signal);
+    const remove = controller.signal.removeEventListener.bind(controller.signal);
+    controller.signal.addEventListener = ((...args: Parameters<typeof add>) => {
+      listeners++;
+      add(...args);
+    }) as typeof add;
+    controller.signal.removeEventListener = ((...args: Parameters<typeof remove>) => {
+      listeners--;
+      remove(...args);
+    }) as typeof remove;
+
+    const reply = await createClient().waitForCompletion('ses_test', { signal: controller.signal });
+
+    expect(reply.map((m) => m.info.id)).toEqual(['msg_1', 'msg_2']);
+    expect(listeners).toBe(0);
+  });
+
+  it('should report user messages after the agent prompt as human', async () => {
+    messages = [
+      { info: { id: 'msg_1', sessionID: 'ses_test', role: 'user', time: { created: 1 } }, parts: [] },
+      assistantMessage,
+      { info: { id: 'msg_3', sessionID: 'ses_test', role: 'user', time: { created: 4 } }, parts: [] }
+    ];
+
+    const human = await createClient().getHumanMessages('ses_test');
+
+    expect(human.map((m) => m.info.id)).toEqual(['msg_3']);
+  });
+});
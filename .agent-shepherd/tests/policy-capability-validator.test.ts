@@ -2,8 +2,11 @@
  * Tests for Policy Capability Validator
  */
 
-import { describe, it, expect, beforeEach } from 'bun:test';
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import { PolicyCapabilityValidator } from '../src/core/policy-capability-validator';
+import { PolicyEngine } from '../src/core/policy';
+import { writeFileSync, rmSync, mkdirSync } from 'fs';
+import { join } from 'path';
 
 describe('PolicyCapabilityValidator', () => {
   let validator: PolicyCapabilityValidator;
@@ -66,4 +69,70 @@ describe('PolicyCapabilityValidator', () => {
       }
     });
   });
-});
\ No newline at end of file
+});
+describe('PolicyCapabilityValidator phase graph', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = join(process.cwd(), 'temp-phase-graph-test');
+    mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function validatorFor(policies: string): PolicyCapabilityValidator {
+    const policiesPath = join(tempDir, 'policies.yaml');
+    writeFileSync(policiesPath, policies.trim());
+    return new PolicyCapabilityValidator(new PolicyEngine(policiesPath));
+  }
+
+  it('should accept cycles bounded by max_loops', () => {
+    const validator = validatorFor(`
+policies:
+  looping:
+    name: Looping
+    phases:
+      - name: implement
+      - name: test
+        on_failure: implement
+        max_loops: 3
+`);
+
+    expect(validator.validatePhaseGraph('looping')).toEqual([]);
+  });
+
+  it('should reject unbounded cycles', () => {
+    const validator = validatorFor(`
+policies:
+  looping:
+    name: Looping
+    phases:
+      - name: implement
+      - name: test
+        on_failure: implement
+`);
+
+    const errors = validator.validatePhaseGraph('looping');
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toContain('unbounded cycle: implement → test → implement');
+  });
+
+  it('should reject unreachable phases', () => {
+    const validator = validatorFor(`
+policies:
+  skipping:
+    name: Skipping
+    phases:
+      - name: implement
+        on_success: deploy
+      - name: docs
+      - name: deploy
+`);
+
+    const errors = validator.validatePhaseGraph('skipping');
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toContain("Phase 'docs' is unreachable");
+  });
+});
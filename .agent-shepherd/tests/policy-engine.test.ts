@@ -123,5 +123,362 @@ default_policy: default
       expect(transition.type).toBe('advance');
       expect(transition.next_phase).toBe('implement');
     });
+
+    it('should schedule retries with backoff until max attempts', () => {
+      const first = policyEngine.determineTransition('default', 'plan', {
+        success: false,
+        retry_count: 0
+      });
+      expect(first.type).toBe('retry');
+      expect(first.retry_delay_ms).toBe(5000);
+
+      const second = policyEngine.determineTransition('default', 'plan', {
+        success: false,
+        retry_count: 1
+      });
+      expect(second.type).toBe('retry');
+      expect(second.retry_delay_ms).toBe(10000);
+
+      const exhausted = policyEngine.determineTransition('default', 'plan', {
+        success: false,
+        retry_count: 2
+      });
+      expect(exhausted.type).toBe('block');
+    });
+  });
+
+  describe('Policy Selection', () => {
+    const issue = {
+      id: 'issue-1',
+      title: 'Fix login crash',
+      description: 'App crashes when the session expires',
+      status: 'open' as const,
+      priority: 1,
+      issue_type: 'bug',
+      labels: ['auth', 'frontend'],
+      created_at: '',
+      updated_at: '',
+    };
+
+    beforeEach(() => {
+      writeFileSync(policiesPath, `
+policies:
+  default:
+    name: "Default Policy"
+    phases:
+      - name: plan
+  strict:
+    name: "Strict Policy"
+    phases:
+      - name: plan
+        require_approval: true
+policy_rules:
+  - name: docs
+    policy: strict
+    match:
+      title: "^docs:"
+  - name: urgent-auth-bugs
+    policy: strict
+    match:
+      issue_type: [bug, incident]
+      priority: { max: 1 }
+      labels: [auth]
+default_policy: default
+      `.trim());
+      policyEngine = new PolicyEngine(policiesPath);
+    });
+
+    it('should select policy from first matching rule', () => {
+      const selection = policyEngine.selectPolicy(issue);
+      expect(selection.policy).toBe('strict');
+      expect(selection.rule).toBe('urgent-auth-bugs');
+      expect(selection.reason).toContain('labels=auth');
+    });
+
+    it('should fall back to default policy when no rule matches', () => {
+      const selection = policyEngine.selectPolicy({ ...issue, priority: 3 });
+      expect(selection.policy).toBe('default');
+      expect(selection.rule).toBeUndefined();
+    });
+
+    it('should match title patterns case-insensitively', () => {
+      const selection = policyEngine.selectPolicy({ ...issue, title: 'DOCS: update readme' });
+      expect(selection.rule).toBe('docs');
+    });
+
+    it('should reject rules that reference unknown policies', () => {
+      writeFileSync(policiesPath, `
+policies:
+  default:
+    name: "Default Policy"
+    phases:
+      - name: plan
+policy_rules:
+  - name: broken
+    policy: missing
+    match:
+      issue_type: bug
+      `.trim());
+
+      expect(() => new PolicyEngine(policiesPath)).toThrow("unknown policy 'missing'");
+    });
+  });
+
+  describe('Non-linear Transitions', () => {
+    beforeEach(() => {
+      writeFileSync(policiesPath, `
+policies:
+  looping:
+    name: "Looping Policy"
+    phases:
+      - name: implement
+      - name: test
+        on_failure: implement
+        max_loops: 2
+      - name: review
+        on_success: deploy
+        on_approval_rejected: implement
+      - name: docs
+      - name: deploy
+      `.trim());
+      policyEngine = new PolicyEngine(policiesPath);
+    });
+
+    it('should send failures to their on_failure target instead of retrying', () => {
+      const transition = policyEngine.determineTransition('looping', 'test', {
+        success: false,
+        loop_count: 0,
+      });
+
+      expect(transition.type).toBe('advance');
+      expect(transition.next_phase).toBe('implement');
+      expect(transition.loop).toBe(true);
+      expect(transition.reason).toContain('loop 1/2');
+    });
+
+    it('should block once the loop limit is reached', () => {
+      const transition = policyEngine.determineTransition('looping', 'test', {
+        success: false,
+        loop_count: 2,
+      });
+
+      expect(transition.type).toBe('block');
+      expect(transition.reason).toContain('loop limit reached');
+    });
+
+    it('should follow on_success targets forward without counting a loop', () => {
+      const transition = policyEngine.determineTransition('looping', 'review', { success: true });
+
+      expect(transition.next_phase).toBe('deploy');
+      expect(transition.loop).toBeUndefined();
+    });
+
+    it('should route rejected approvals to on_approval_rejected', () => {
+      const rejected = policyEngine.determineTransition('looping', 'review', {
+        success: true,
+        approval_rejected: true,
+      });
+      expect(rejected.next_phase).toBe('implement');
+
+      const blocked = policyEngine.determineTransition('looping', 'implement', {
+        success: true,
+        approval_rejected: true,
+      });
+      expect(blocked.type).toBe('block');
+    });
+
+    it('should reject transition targets that are not phases of the policy', () => {
+      writeFileSync(policiesPath, `
+policies:
+  broken:
+    name: "Broken Policy"
+    phases:
+      - name: implement
+        on_failure: nowhere
+      `.trim());
+
+      expect(() => new PolicyEngine(policiesPath)).toThrow("on_failure target 'nowhere'");
+    });
+  });
+
+  describe('Parallel Phase Groups', () => {
+    beforeEach(() => {
+      writeFileSync(policiesPath, `
+policies:
+  fanout:
+    name: "Fan-out Policy"
+    phases:
+      - name: implement
+      - name: polish
+        parallel:
+          - name: docs
+            capabilities: [documentation]
+          - name: tests
+            capabilities: [testing]
+            timeout_multiplier: 2
+          - name: lint
+        quorum: 2
+      - name: review
+      `.trim());
+      policyEngine = new PolicyEngine(policiesPath);
+    });
+
+    it('should treat a group as one step of the phase sequence', () => {
+      expect(policyEngine.getPhaseSequence('fanout')).toEqual(['implement', 'polish', 'review']);
+      expect(policyEngine.getNextPhase('fanout', 'polish')).toBe('review');
+      expect(policyEngine.getRunnablePhases('fanout').map((phase) => phase.name)).toEqual([
+        'implement', 'docs', 'tests', 'lint', 'review',
+      ]);
+    });
+
+    it('should resolve members and their group', () => {
+      expect(policyEngine.getGroupMembers('fanout', 'polish').map((phase) => phase.name)).toEqual([
+        'docs', 'tests', 'lint',
+      ]);
+      expect(policyEngine.getGroupMembers('fanout', 'review')).toEqual([]);
+      expect(policyEngine.getGroupQuorum('fanout', 'polish')).toBe(2);
+      expect(policyEngine.getPhaseGroup('fanout', 'tests')?.name).toBe('polish');
+      expect(policyEngine.getPhaseConfig('fanout', 'tests')?.capabilities).toEqual(['testing']);
+      expect(policyEngine.calculateTimeout('fanout', 'tests')).toBe(600000);
+    });
+
+    it('should reject invalid groups', () => {
+      const load = (phases: string) => {
+        writeFileSync(policiesPath, `policies:\n  broken:\n    name: "Broken"\n    phases:\n${phases}`);
+        return () => new PolicyEngine(policiesPath);
+      };
+
+      expect(load('      - name: g\n        parallel:\n          - name: a\n')).toThrow('at least two parallel members');
+      expect(load('      - name: a\n      - name: g\n        parallel:\n          - name: a\n          - name: b\n')).toThrow(
+        "more than one phase named 'a'"
+      );
+      expect(load('      - name: g\n        parallel:\n          - name: a\n          - name: b\n        quorum: 3\n')).toThrow(
+        'quorum must be an integer between 1 and 2'
+      );
+      expect(load('      - name: g\n        parallel:\n          - name: a\n            on_failure: g\n          - name: b\n')).toThrow(
+        "'broken.g.a' cannot set on_failure"
+      );
+    });
+  });
+
+  describe('Policy Inheritance', () => {
+    const BASE = `
+phase_definitions:
+  review:
+    capabilities: [review]
+    require_approval: true
+
+policies:
+  base:
+    name: "Base Policy"
+    phases:
+      - name: plan
+        capabilities: [planning]
+      - name: implement
+        capabilities: [coding]
+        timeout_multiplier: 2
+      - use: review
+    retry:
+      max_attempts: 3
+      backoff_strategy: exponential
+      initial_delay_ms: 1000
+    timeout_base_ms: 60000
+`;
+
+    const load = (policies: string) => {
+      writeFileSync(policiesPath, `${BASE}${policies}`);
+      return new PolicyEngine(policiesPath);
+    };
+
+    it('should expand named phase definitions', () => {
+      const engine = load('');
+
+      expect(engine.getPhaseSequence('base')).toEqual(['plan', 'implement', 'review']);
+      expect(engine.getPhaseConfig('base', 'review')?.require_approval).toBe(true);
+    });
+
+    it('should deep-merge a child policy over its parent', () => {
+      const engine = load(`
+  child:
+    name: "Child Policy"
+    extends: base
+    retry:
+      max_attempts: 5
+  grandchild:
+    name: "Grandchild Policy"
+    extends: child
+    timeout_base_ms: 1000
+`);
+
+      const grandchild = engine.getPolicy('grandchild')!;
+      expect(grandchild.name).toBe('Grandchild Policy');
+      expect(grandchild.retry).toEqual({ max_attempts: 5, backoff_strategy: 'exponential', initial_delay_ms: 1000 });
+      expect(grandchild.timeout_base_ms).toBe(1000);
+      expect(engine.getPhaseSequence('grandchild')).toEqual(['plan', 'implement', 'review']);
+      expect(engine.getPolicy('base')?.retry?.max_attempts).toBe(3);
+    });
+
+    it('should insert, replace, update and remove inherited phases by name', () => {
+      const engine = load(`
+  child:
+    name: "Child Policy"
+    extends: base
+    phase_changes:
+      - remove: plan
+      - insert_after: implement
+        phase:
+          name: test
+          capabilities: [testing]
+      - insert_before: implement
+        phase:
+          use: review
+          name: design-review
+      - update: implement
+        phase:
+          capabilities: [coding, refactoring]
+      - replace: review
+        phase:
+          name: ship
+          capabilities: [deploy]
+`);
+
+      expect(engine.getPhaseSequence('child')).toEqual(['design-review', 'implement', 'test', 'ship']);
+      expect(engine.getPhaseConfig('child', 'implement')).toEqual({
+        name: 'implement',
+        capabilities: ['coding', 'refactoring'],
+        timeout_multiplier: 2,
+      });
+      expect(engine.getPhaseConfig('child', 'design-review')?.require_approval).toBe(true);
+      expect(engine.getPhaseSequence('base')).toEqual(['plan', 'implement', 'review']);
+    });
+
+    it('should report inheritance errors clearly', () => {
+      expect(() => load(`
+  a:
+    name: A
+    extends: b
+  b:
+    name: B
+    extends: a
+`)).toThrow('Policy inheritance cycle: a -> b -> a');
+      expect(() => load(`
+  child:
+    name: Child
+    extends: missing
+`)).toThrow("Policy 'child' extends unknown policy 'missing'");
+      expect(() => load(`
+  child:
+    name: Child
+    extends: base
+    phase_changes:
+      - remove: deploy
+`)).toThrow("Policy 'child' cannot remove phase 'deploy': no such phase");
+      expect(() => load(`
+  child:
+    name: Child
+    phases:
+      - use: nope
+`)).toThrow("Policy 'child' uses unknown phase definition 'nope'");
+    });
   });
 });
\ No newline at end of file
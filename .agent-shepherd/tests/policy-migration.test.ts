@@ -0,0 +1,158 @@
+/**
+ * Tests for Policy Migration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { PolicyEngine } from '../src/core/policy.ts';
+import type { PolicyConfig } from '../src/core/policy.ts';
+import type { WorkflowState } from '../src/core/logging.ts';
+import {
+  diffPolicies,
+  findAffectedWorkflows,
+  hashPolicy,
+  planMigration,
+} from '../src/core/policy-migration.ts';
+import { writeFileSync, rmSync, mkdirSync } from 'fs';
+import { join } from 'path';
+
+const OLD_POLICY: PolicyConfig = {
+  name: 'Default Policy',
+  phases: [{ name: 'plan' }, { name: 'implement' }, { name: 'test' }],
+};
+
+describe('Policy Migration', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = join(process.cwd(), 'temp-migration-test');
+    mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function load(migration: string): PolicyEngine {
+    const path = join(tempDir, 'policies.yaml');
+    writeFileSync(path, `
+policies:
+  default:
+    name: "Default Policy"
+    phases:
+      - name: plan
+      - name: build
+      - name: verify
+        parallel:
+          - name: unit
+          - name: lint
+${migration}
+`);
+    return new PolicyEngine(path);
+  }
+
+  it('should hash policies by content, ignoring key order and migration settings', () => {
+    const reordered = { phases: OLD_POLICY.phases, name: 'Default Policy' };
+    const withMigration = { ...OLD_POLICY, migration: { strategy: 'restart' as const } };
+
+    expect(hashPolicy(reordered)).toBe(hashPolicy(OLD_POLICY));
+    expect(hashPolicy(withMigration)).toBe(hashPolicy(OLD_POLICY));
+    expect(hashPolicy({ ...OLD_POLICY, retry: { max_attempts: 2, backoff_strategy: 'fixed' } }))
+      .not.toBe(hashPolicy(OLD_POLICY));
+  });
+
+  it('should diff the phases of two versions', () => {
+    const policies = load('');
+
+    expect(diffPolicies(OLD_POLICY, policies.getPolicy('default')!)).toEqual({
+      added: ['build', 'verify'],
+      removed: ['implement', 'test'],
+      changed: [],
+    });
+  });
+
+  it('should map renamed phases, including onto parallel members', () => {
+    const policies = load(`    migration:
+      strategy: map
+      phase_map:
+        implement: build
+        test: unit`);
+    const oldHash = hashPolicy(OLD_POLICY);
+
+    expect(planMigration(policies, 'default', 'implement', oldHash, OLD_POLICY)).toMatchObject({
+      action: 'map',
+      to_phase: 'build',
+    });
+    expect(planMigration(policies, 'default', 'test', oldHash, OLD_POLICY).to_phase).toBe('verify');
+    expect(planMigration(policies, 'default', 'plan', oldHash, OLD_POLICY).to_phase).toBe('plan');
+  });
+
+  it('should fall back to the old version when a phase cannot be mapped', () => {
+    const policies = load('');
+    const oldHash = hashPolicy(OLD_POLICY);
+
+    expect(planMigration(policies, 'default', 'test', oldHash, OLD_POLICY).action).toBe('continue');
+
+    const unknown = planMigration(policies, 'default', 'test', oldHash, null);
+    expect(unknown.action).toBe('block');
+    expect(unknown.reason).toContain("phase 'test' no longer exists");
+  });
+
+  it('should continue or restart as the strategy says', () => {
+    const oldHash = hashPolicy(OLD_POLICY);
+
+    const continued = load('    migration:\n      strategy: continue');
+    expect(planMigration(continued, 'default', 'plan', oldHash, OLD_POLICY).action).toBe('continue');
+
+    const restarted = load('    migration:\n      strategy: restart');
+    expect(planMigration(restarted, 'default', 'test', oldHash, OLD_POLICY)).toMatchObject({
+      action: 'restart',
+      to_phase: 'plan',
+    });
+  });
+
+  it('should leave unchanged policies and unversioned workflows alone', () => {
+    const policies = load('');
+    const hash = policies.getPolicyHash('default')!;
+
+    expect(planMigration(policies, 'default', 'build', hash, null).action).toBe('none');
+    expect(planMigration(policies, 'default', 'build', undefined, null).action).toBe('none');
+  });
+
+  it('should reject phase maps onto unknown phases', () => {
+    expect(() => load('    migration:\n      strategy: map\n      phase_map:\n        test: deploy'))
+      .toThrow("migration maps 'test' to 'deploy', which is not a phase of the policy");
+  });
+
+  it('should find the in-flight workflows a change affects', () => {
+    const policies = load('');
+    const oldHash = hashPolicy(OLD_POLICY);
+    const workflow = (issue: string, fields: Partial<WorkflowState>): WorkflowState => ({
+      issue_id: issue,
+      policy_name: 'default',
+      policy_hash: oldHash,
+      current_phase: 'implement',
+      attempt_count: 0,
+      status: 'active',
+      created_at: 0,
+      updated_at: 0,
+      ...fields,
+    });
+
+    const affected = findAffectedWorkflows(
+      [
+        workflow('issue-old', {}),
+        workflow('issue-current', { policy_hash: policies.getPolicyHash('default')! }),
+        workflow('issue-done', { status: 'completed' }),
+        workflow('issue-removed', { policy_name: 'legacy' }),
+      ],
+      policies,
+      () => null
+    );
+
+    expect(affected.map((entry) => [entry.issue_id, entry.plan.action])).toEqual([
+      ['issue-old', 'block'],
+      ['issue-removed', 'restart'],
+    ]);
+    expect(affected[1].to_hash).toBeNull();
+  });
+});
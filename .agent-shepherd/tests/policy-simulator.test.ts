@@ -0,0 +1,120 @@
+/**
+ * Tests for Policy Simulator
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { PolicyEngine } from '../src/core/policy.ts';
+import {
+  formatSimulationTable,
+  parseOutcomes,
+  simulatePolicy,
+} from '../src/core/policy-simulator.ts';
+import { writeFileSync, rmSync, mkdirSync } from 'fs';
+import { join } from 'path';
+
+describe('Policy Simulator', () => {
+  let tempDir: string;
+  let policyEngine: PolicyEngine;
+
+  beforeEach(() => {
+    tempDir = join(process.cwd(), 'temp-simulator-test');
+    mkdirSync(tempDir, { recursive: true });
+    writeFileSync(join(tempDir, 'policies.yaml'), `
+policies:
+  default:
+    name: "Default Policy"
+    phases:
+      - name: implement
+      - name: test
+        on_failure: implement
+        max_loops: 1
+      - name: review
+        require_approval: true
+        on_approval_rejected: implement
+    retry:
+      max_attempts: 3
+      backoff_strategy: exponential
+      initial_delay_ms: 1000
+default_policy: default
+`);
+    policyEngine = new PolicyEngine(join(tempDir, 'policies.yaml'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should parse outcome scripts', () => {
+    expect(parseOutcomes(' success, FAIL,approve ')).toEqual(['success', 'fail', 'approve']);
+    expect(() => parseOutcomes('success,maybe')).toThrow("Unknown outcome 'maybe'");
+  });
+
+  it('should retry with backoff on the virtual clock and close after approval', () => {
+    const result = simulatePolicy(
+      policyEngine,
+      'default',
+      parseOutcomes('fail,fail,success,success,success,approve')
+    );
+
+    expect(result.steps.map((step) => [step.time_ms, step.phase, step.attempt, step.transition])).toEqual([
+      [0, 'implement', 1, 'retry'],
+      [1000, 'implement', 2, 'retry'],
+      [3000, 'implement', 3, 'advance'],
+      [3000, 'test', 1, 'advance'],
+      [3000, 'review', 1, 'block'],
+      [3000, 'review', 1, 'close'],
+    ]);
+    expect(result.steps[1].retry_delay_ms).toBe(2000);
+    expect(result.path).toEqual(['implement', 'test', 'review']);
+    expect(result.final).toMatchObject({ status: 'completed', phase: 'review', time_ms: 3000 });
+  });
+
+  it('should follow loops until their limit blocks the workflow', () => {
+    const result = simulatePolicy(policyEngine, 'default', parseOutcomes('success,fail,success,fail'));
+
+    expect(result.path).toEqual(['implement', 'test', 'implement', 'test']);
+    expect(result.steps[1].loop).toBe(true);
+    expect(result.final).toMatchObject({
+      status: 'blocked',
+      phase: 'test',
+      loop_counts: { test: 1 },
+    });
+    expect(result.final.reason).toContain('loop limit reached');
+  });
+
+  it('should send rejected results back and resume unblocked workflows', () => {
+    const result = simulatePolicy(
+      policyEngine,
+      'default',
+      parseOutcomes('success,success,success,reject,fail,fail,fail,unblock,success')
+    );
+
+    expect(result.steps[3]).toMatchObject({ transition: 'advance', next_phase: 'implement', loop: true });
+    expect(result.steps[6]).toMatchObject({ transition: 'block', reason: 'Max retries exceeded' });
+    expect(result.steps[8]).toMatchObject({ phase: 'implement', attempt: 1, transition: 'advance' });
+  });
+
+  it('should reject scripts that do not fit the workflow', () => {
+    expect(() => simulatePolicy(policyEngine, 'default', ['approve']))
+      .toThrow("Outcome 1 'approve': no result is awaiting approval");
+    expect(() => simulatePolicy(policyEngine, 'default', ['success', 'success', 'success', 'success']))
+      .toThrow("Outcome 4 'success': the workflow is blocked (Human approval required)");
+    expect(() => simulatePolicy(policyEngine, 'missing', ['success'])).toThrow("Policy 'missing' not found");
+  });
+
+  it('should render a table with the path and final state', () => {
+    const table = formatSimulationTable(simulatePolicy(policyEngine, 'default', ['fail', 'success']));
+
+    expect(table).toBe([
+      'Policy: default',
+      '',
+      '#  Time  Phase      Attempt  Outcome  Transition  Next  Delay  Reason',
+      '-  ----  ---------  -------  -------  ----------  ----  -----  ----------------------------',
+      '1  0ms   implement  1        fail     retry       -     1s     Retry 1/3',
+      '2  1s    implement  2        success  advance     test  -      Phase completed successfully',
+      '',
+      'Path: implement -> test',
+      "Final: active at 'test' at 1s (Phase completed successfully)",
+    ].join('\n'));
+  });
+});
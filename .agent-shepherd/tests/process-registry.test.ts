@@ -0,0 +1,83 @@
+/**
+ * Tests for Process Registry
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { Logger } from '../src/core/logging.ts';
+import { ProcessRegistry } from '../src/core/process-registry.ts';
+import { rmSync, mkdirSync } from 'fs';
+import { hostname } from 'os';
+import { join } from 'path';
+
+describe('ProcessRegistry', () => {
+  let logger: Logger;
+  let registry: ProcessRegistry;
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = join(process.cwd(), 'temp-process-registry-test');
+    mkdirSync(tempDir, { recursive: true });
+    logger = new Logger(tempDir);
+    registry = new ProcessRegistry(logger);
+
+    logger.createRun({
+      id: 'run-1',
+      issue_id: 'issue-1',
+      session_id: '',
+      agent_id: 'coder',
+      policy_name: 'default',
+      phase: 'implement',
+      status: 'pending',
+    });
+  });
+
+  afterEach(() => {
+    logger.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should mark runs as running when their process registers', () => {
+    registry.track('run-1');
+    registry.register('run-1', { pid: process.pid });
+
+    const run = logger.getRun('run-1');
+    expect(run?.status).toBe('running');
+    expect(run?.pid).toBe(process.pid);
+    expect(run?.host).toBe(hostname());
+    expect(run?.started_at).toBeDefined();
+
+    const info = registry.inspect('run-1');
+    expect(info?.alive).toBe(true);
+    expect(info?.local).toBe(true);
+    expect(info?.last_output_at).toBeDefined();
+  });
+
+  it('should detect processes that have exited', async () => {
+    const proc = Bun.spawn(['true']);
+    await proc.exited;
+
+    expect(registry.isAlive({ pid: process.pid, host: hostname() })).toBe(true);
+    expect(registry.isAlive({ pid: proc.pid, host: hostname() })).toBe(false);
+    expect(registry.isAlive({ pid: undefined, host: undefined })).toBe(false);
+  });
+
+  it('should assume processes on other hosts are alive', () => {
+    expect(registry.isAlive({ pid: 1234, host: 'some-other-host' })).toBe(true);
+  });
+
+  it('should abort locally tracked runs through their signal', () => {
+    const signal = registry.track('run-1');
+
+    expect(registry.abort('run-1')).toBe(true);
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('should clear heartbeats on release', () => {
+    registry.track('run-1');
+    registry.register('run-1', { pid: process.pid });
+    registry.release('run-1');
+
+    expect(logger.getHeartbeat('run-1')).toBeNull();
+    expect(registry.inspect('run-1')?.local).toBe(false);
+  });
+});
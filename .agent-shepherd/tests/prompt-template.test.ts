@@ -0,0 +1,64 @@
+/**
+ * Tests for Prompt Templates
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  loadPromptTemplate,
+  renderPromptTemplate,
+} from '../src/core/prompt-template.ts';
+import { writeFileSync, rmSync, mkdirSync } from 'fs';
+import { join } from 'path';
+
+describe('Prompt templates', () => {
+  let promptsDir: string;
+
+  beforeEach(() => {
+    promptsDir = join(process.cwd(), 'temp-prompts-test');
+    mkdirSync(promptsDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(promptsDir, { recursive: true, force: true });
+  });
+
+  it('should substitute nested variables', () => {
+    const prompt = renderPromptTemplate(
+      'Fix {{ issue.id }}: {{issue.title}} (attempt {{attempt}}){{missing}}{{issue.nope.deeper}}',
+      { issue: { id: 'ISSUE-1', title: 'Broken build' }, attempt: 2 },
+      promptsDir
+    );
+
+    expect(prompt).toBe('Fix ISSUE-1: Broken build (attempt 2)');
+  });
+
+  it('should expand partials with the same variables', () => {
+    writeFileSync(join(promptsDir, 'rules.md'), 'Rules for {{phase.name}}\n{{> footer}}');
+    writeFileSync(join(promptsDir, 'footer.md'), 'Be brief.');
+
+    const prompt = renderPromptTemplate('{{> rules}}\n\nGo.', { phase: { name: 'test' } }, promptsDir);
+
+    expect(prompt).toBe('Rules for test\nBe brief.\n\nGo.');
+  });
+
+  it('should reject missing and recursive partials', () => {
+    writeFileSync(join(promptsDir, 'loop.md'), '{{> loop}}');
+
+    expect(() => renderPromptTemplate('{{> nope}}', {}, promptsDir)).toThrow("Prompt partial 'nope' not found");
+    expect(() => renderPromptTemplate('{{> loop}}', {}, promptsDir)).toThrow('nested deeper');
+  });
+
+  it('should collapse blank lines left by empty variables', () => {
+    expect(renderPromptTemplate('A\n\n{{empty}}\n\nB', {}, promptsDir)).toBe('A\n\nB');
+  });
+
+  it('should load file templates from the prompts directory', () => {
+    writeFileSync(join(promptsDir, 'review.md'), 'Review {{issue.id}}');
+
+    expect(loadPromptTemplate('review.md', promptsDir)).toBe('Review {{issue.id}}');
+    expect(loadPromptTemplate('Inline {{issue.id}}', promptsDir)).toBe('Inline {{issue.id}}');
+    expect(loadPromptTemplate(undefined, promptsDir)).toBe(DEFAULT_PROMPT_TEMPLATE);
+    expect(() => loadPromptTemplate('missing.md', promptsDir)).toThrow('Prompt template not found');
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Tests for the WorkerEngine poll loop: run slots, in-flight tracking and
+ * how issues that cannot start are retried
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { WorkerEngine } from '../src/core/worker-engine.ts';
+import { MemoryIssueStore } from '../src/core/issue-store.ts';
+import { PolicyEngine } from '../src/core/policy.ts';
+import { AgentRegistry } from '../src/core/agent-registry.ts';
+import { ProcessRegistry } from '../src/core/process-registry.ts';
+import { Logger } from '../src/core/logging.ts';
+import type { WorkerConfig } from '../src/core/worker-engine.ts';
+import type { BeadsIssue } from '../src/core/beads.ts';
+import { writeFileSync, readFileSync, existsSync, rmSync, mkdirSync } from 'fs';
+import { join } from 'path';
+
+const POLICIES = `
+policies:
+  default:
+    name: "Default Policy"
+    phases:
+      - name: implement
+        capabilities: [coding]
+    timeout_base_ms: 60000
+
+  audited:
+    name: "Audited Policy"
+    phases:
+      - name: audit
+        capabilities: [security]
+
+policy_rules:
+  - name: bugs
+    policy: audited
+    match:
+      issue_type: bug
+
+default_policy: default
+`;
+
+const FIXTURE = `
+runs:
+  - delay_ms: 150
+    summary: "Done"
+`;
+
+/**
+ * Issue store that counts polls and can keep reporting in-progress issues
+ * as ready, the way a lagging beads cache does
+ */
+class PollingIssueStore extends MemoryIssueStore {
+  polls = 0;
+  staleIds: string[] = [];
+  delayMs = 0;
+
+  async getReadyIssues(): Promise<BeadsIssue[]> {
+    this.polls++;
+    await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+    const ready = await super.getReadyIssues();
+    for (const id of this.staleIds) {
+      const issue = await this.getIssue(id);
+      if (issue?.status === 'in_progress') {
+        ready.push(issue);
+      }
+    }
+    return ready;
+  }
+}
+
+describe('Worker loop', () => {
+  let tempDir: string;
+  let logger: Logger;
+  let issues: PollingIssueStore;
+
+  beforeEach(() => {
+    tempDir = join(process.cwd(), 'temp-worker-loop-test');
+    mkdirSync(tempDir, { recursive: true });
+
+    const fixturePath = join(tempDir, 'fixture.yaml');
+    writeFileSync(fixturePath, FIXTURE);
+    writeFileSync(join(tempDir, 'policies.yaml'), POLICIES);
+    writeFileSync(
+      join(tempDir, 'agents.yaml'),
+      `
+version: "1.0"
+agents:
+  - id: mock-agent
+    name: Mock Agent
+    capabilities: [coding]
+    runtime: mock
+    fixture: ${fixturePath}
+`
+    );
+
+    logger = new Logger(join(tempDir, 'data'));
+    issues = new PollingIssueStore();
+  });
+
+  afterEach(() => {
+    logger.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createWorker(
+    config: WorkerConfig,
+    agentRegistry = new AgentRegistry(join(tempDir, 'agents.yaml'))
+  ): WorkerEngine {
+    return new WorkerEngine(config, {
+      issues,
+      policyEngine: new PolicyEngine(join(tempDir, 'policies.yaml')),
+      agentRegistry,
+      logger,
+      processRegistry: new ProcessRegistry(logger),
+    });
+  }
+
+  async function runUntil(
+    worker: WorkerEngine,
+    done: () => Promise<boolean>,
+    timeoutMs: number,
+    // eslint-disable-next-line no-unused-vars
+    onTick: (worker: WorkerEngine) => void = () => {}
+  ): Promise<void> {
+    const running = worker.start();
+    const deadline = Date.now() + timeoutMs;
+    while (!(await done()) && Date.now() < deadline) {
+      onTick(worker);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    worker.stop();
+    await running;
+  }
+
+  async function allClosed(ids: string[]): Promise<boolean> {
+    for (const id of ids) {
+      if ((await issues.getIssue(id))?.status !== 'closed') {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  function policySelections(): number {
+    const path = join(tempDir, 'data', 'decisions.jsonl');
+    if (!existsSync(path)) {
+      return 0;
+    }
+    return readFileSync(path, 'utf-8')
+      .split('\n')
+      .filter((line) => line.includes('"policy_selection"')).length;
+  }
+
+  it('should keep at most max_concurrent_runs runs in flight', async () => {
+    const ids = ['issue-1', 'issue-2', 'issue-3', 'issue-4', 'issue-5'];
+    ids.forEach((id) => issues.addIssue({ id }));
+    const worker = createWorker({ poll_interval_ms: 20, max_concurrent_runs: 2 });
+
+    let peak = 0;
+    await runUntil(worker, () => allClosed(ids), 5000, (w) => {
+      peak = Math.max(peak, w.getInFlightIssueIds().length);
+    });
+
+    expect(await allClosed(ids)).toBe(true);
+    expect(peak).toBe(2);
+    expect(logger.queryRuns({}).length).toBe(ids.length);
+  });
+
+  it('should not dispatch an issue that is already in flight', async () => {
+    issues.addIssue({ id: 'issue-1' });
+    issues.staleIds = ['issue-1'];
+    const worker = createWorker({ poll_interval_ms: 10 });
+
+    await runUntil(worker, () => allClosed(['issue-1']), 5000);
+
+    expect(await allClosed(['issue-1'])).toBe(true);
+    expect(issues.polls).toBeGreaterThan(3);
+    expect(logger.queryRuns({ issue_id: 'issue-1' }).length).toBe(1);
+  });
+
+  it('should fill a freed slot before the poll interval elapses', async () => {
+    const ids = ['issue-1', 'issue-2', 'issue-3'];
+    ids.forEach((id) => issues.addIssue({ id }));
+    const worker = createWorker({ poll_interval_ms: 60000, max_concurrent_runs: 1 });
+
+    await runUntil(worker, () => allClosed(ids), 5000);
+
+    expect(await allClosed(ids)).toBe(true);
+    expect(logger.queryRuns({}).length).toBe(ids.length);
+  });
+
+  it('should fill a slot freed while the loop was polling', async () => {
+    const ids = ['issue-1', 'issue-2', 'issue-3', 'issue-4'];
+    ids.forEach((id) => issues.addIssue({ id }));
+    issues.delayMs = 100;
+    const worker = createWorker({ poll_interval_ms: 60000, max_concurrent_runs: 2 });
+
+    await runUntil(worker, () => allClosed(ids), 5000);
+
+    expect(await allClosed(ids)).toBe(true);
+  });
+
+  it('should leave an issue that cannot start to the next poll', async () => {
+    // Bugs need a security agent, which is not registered
+    issues.addIssue({ id: 'issue-bug', issue_type: 'bug' });
+    const worker = createWorker({ poll_interval_ms: 100 });
+
+    const started = Date.now();
+    await runUntil(worker, async () => Date.now() - started >= 450, 1000);
+
+    // One poll on start and one per elapsed interval, not one per attempt
+    expect(issues.polls).toBeGreaterThanOrEqual(3);
+    expect(issues.polls).toBeLessThanOrEqual(6);
+    expect((await issues.getIssue('issue-bug'))?.status).toBe('open');
+    expect(logger.queryRuns({}).length).toBe(0);
+    expect(policySelections()).toBe(0);
+  });
+
+  it('should retry an issue that cannot start while other runs keep finishing', async () => {
+    issues.addIssue({ id: 'issue-bug', issue_type: 'bug' });
+    const ids = Array.from({ length: 8 }, (_, i) => `issue-${i + 1}`);
+    ids.forEach((id) => issues.addIssue({ id }));
+    const worker = createWorker({ poll_interval_ms: 300, max_concurrent_runs: 2 });
+
+    // Finished runs wake the loop more often than the poll interval
+    let attempts = 0;
+    const processIssue = worker.processIssue.bind(worker);
+    worker.processIssue = (issue, options) => {
+      if (issue.id === 'issue-bug') {
+        attempts++;
+      }
+      return processIssue(issue, options);
+    };
+
+    await runUntil(worker, () => allClosed(ids), 5000);
+
+    expect(await allClosed(ids)).toBe(true);
+    expect(attempts).toBeGreaterThanOrEqual(2);
+  });
+
+  describe('with a saturated agent', () => {
+    let registry: AgentRegistry;
+
+    beforeEach(() => {
+      const agentsPath = join(tempDir, 'agents-limited.yaml');
+      writeFileSync(
+        agentsPath,
+        `
+version: "1.0"
+agents:
+  - id: mock-agent
+    name: Mock Agent
+    capabilities: [coding]
+    runtime: mock
+    fixture: ${join(tempDir, 'fixture.yaml')}
+    max_concurrent: 1
+`
+      );
+      registry = new AgentRegistry(agentsPath);
+      registry.acquire('mock-agent', 'run-elsewhere');
+      issues.addIssue({ id: 'issue-1' });
+    });
+
+    it('should keep polling at the configured interval', async () => {
+      const worker = createWorker({ poll_interval_ms: 100 }, registry);
+
+      const started = Date.now();
+      await runUntil(worker, async () => Date.now() - started >= 450, 1000);
+
+      expect(issues.polls).toBeGreaterThanOrEqual(3);
+      expect(issues.polls).toBeLessThanOrEqual(6);
+      expect((await issues.getIssue('issue-1'))?.status).toBe('open');
+      expect(logger.queryRuns({}).length).toBe(0);
+      expect(policySelections()).toBe(0);
+    });
+
+    it('should start the issue once the agent frees up', async () => {
+      const worker = createWorker({ poll_interval_ms: 60000 }, registry);
+      setTimeout(() => registry.release('run-elsewhere'), 50);
+
+      await runUntil(worker, () => allClosed(['issue-1']), 5000);
+
+      // The first poll, the retry on release and the refill once the run ended
+      expect(await allClosed(['issue-1'])).toBe(true);
+      expect(issues.polls).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,576 @@
+/**
+ * End-to-end workflow tests driving WorkerEngine and MonitorEngine with
+ * mock agents and an in-memory issue store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { WorkerEngine } from '../src/core/worker-engine.ts';
+import { MonitorEngine } from '../src/core/monitor-engine.ts';
+import { MemoryIssueStore } from '../src/core/issue-store.ts';
+import { PolicyEngine } from '../src/core/policy.ts';
+import { AgentRegistry } from '../src/core/agent-registry.ts';
+import { ProcessRegistry } from '../src/core/process-registry.ts';
+import { Logger } from '../src/core/logging.ts';
+import { writeFileSync, readFileSync, rmSync, mkdirSync } from 'fs';
+import { join } from 'path';
+
+const POLICIES = `
+policies:
+  default:
+    name: "Default Policy"
+    phases:
+      - name: plan
+        capabilities: [planning]
+      - name: implement
+        capabilities: [coding]
+        prompt_template: |
+          Implement {{issue.id}} on {{repo.branch}}, attempt {{attempt}} of {{max_attempts}}.
+
+          {{handoff}}
+    retry:
+      max_attempts: 3
+      backoff_strategy: fixed
+      initial_delay_ms: 0
+    timeout_base_ms: 60000
+    stall_threshold_ms: 200
+
+  looping:
+    name: "Looping Policy"
+    phases:
+      - name: implement
+        capabilities: [coding]
+      - name: test
+        capabilities: [coding]
+        on_failure: implement
+        max_loops: 1
+
+  fanout:
+    name: "Fan-out Policy"
+    phases:
+      - name: implement
+        capabilities: [coding]
+      - name: polish
+        parallel:
+          - name: docs
+            capabilities: [planning]
+          - name: tests
+            capabilities: [coding]
+      - name: review
+        capabilities: [coding]
+
+  quorum:
+    name: "Quorum Policy"
+    phases:
+      - name: polish
+        parallel:
+          - name: docs
+            capabilities: [planning]
+          - name: tests
+            capabilities: [coding]
+        quorum: 1
+      - name: review
+        capabilities: [coding]
+
+  reviewed:
+    name: "Reviewed Policy"
+    phases:
+      - name: implement
+        capabilities: [coding]
+      - name: review
+        capabilities: [coding]
+        require_approval: true
+        approvers: [alice]
+        on_approval_rejected: implement
+
+  audited:
+    name: "Audited Policy"
+    phases:
+      - name: audit
+        capabilities: [security]
+
+default_policy: default
+`;
+
+const FIXTURE = `
+runs:
+  - issue: issue-retry
+    phase: implement
+    attempt: 1
+    status: failure
+    error: "Tests failed"
+  - issue: issue-retry
+    phase: implement
+    attempt: 2
+    summary: "Implemented the feature"
+    requires_approval: true
+    files:
+      temp-e2e-test/workspace/feature.ts: "export const feature = true;\\n"
+  - issue: issue-stall
+    phase: implement
+    delay_ms: 10000
+  - issue: issue-loop
+    phase: test
+    status: failure
+    error: "2 tests failed"
+  - issue: issue-group
+    phase: tests
+    attempt: 1
+    status: failure
+    error: "Coverage too low"
+  - issue: issue-quorum
+    phase: tests
+    status: failure
+    error: "Flaky suite"
+  - issue: issue-question
+    phase: implement
+    prompt_includes: "Use PostgreSQL"
+    summary: "Implemented the cache on PostgreSQL"
+  - issue: issue-question
+    phase: implement
+    status: question
+    summary: "The cache backend is undecided"
+    question:
+      text: "Which database should the cache use?"
+      options: [PostgreSQL, SQLite]
+  - summary: "Done"
+`;
+
+describe('Workflow end to end', () => {
+  let tempDir: string;
+  let logger: Logger;
+  let issues: MemoryIssueStore;
+  let processRegistry: ProcessRegistry;
+  let policyEngine: PolicyEngine;
+  let worker: WorkerEngine;
+
+  beforeEach(() => {
+    tempDir = join(process.cwd(), 'temp-e2e-test');
+    mkdirSync(tempDir, { recursive: true });
+
+    const fixturePath = join(tempDir, 'fixture.yaml');
+    writeFileSync(fixturePath, FIXTURE);
+    writeFileSync(join(tempDir, 'policies.yaml'), POLICIES);
+    writeFileSync(
+      join(tempDir, 'agents.yaml'),
+      `
+version: "1.0"
+agents:
+  - id: mock-agent
+    name: Mock Agent
+    capabilities: [planning, coding]
+    runtime: mock
+    fixture: ${fixturePath}
+`
+    );
+
+    logger = new Logger(join(tempDir, 'data'));
+    issues = new MemoryIssueStore([
+      { id: 'issue-retry' },
+      { id: 'issue-close' },
+      { id: 'issue-stall' },
+      { id: 'issue-loop' },
+      { id: 'issue-group' },
+      { id: 'issue-quorum' },
+      { id: 'issue-question' },
+    ]);
+    processRegistry = new ProcessRegistry(logger);
+    policyEngine = new PolicyEngine(join(tempDir, 'policies.yaml'));
+    worker = new WorkerEngine(
+      { poll_interval_ms: 20 },
+      {
+        issues,
+        policyEngine,
+        agentRegistry: new AgentRegistry(join(tempDir, 'agents.yaml')),
+        logger,
+        processRegistry,
+      }
+    );
+  });
+
+  afterEach(() => {
+    logger.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function processIssue(issueId: string, policy?: string) {
+    const issue = (await issues.getIssue(issueId))!;
+    return worker.processIssue(issue, { policy });
+  }
+
+  it('should retry a failed attempt and block for approval', async () => {
+    const plan = await processIssue('issue-retry');
+    expect(plan.next_phase).toBe('implement');
+
+    const failed = await processIssue('issue-retry');
+    expect(failed.success).toBe(false);
+    expect(logger.getRun(failed.run_id)?.outcome?.error_code).toBe('AGENT_REPORTED_FAILURE');
+    expect((await issues.getIssue('issue-retry'))?.status).toBe('open');
+
+    const approved = await processIssue('issue-retry');
+    expect(approved.success).toBe(true);
+    expect(approved.message).toBe('Human approval required');
+    expect((await issues.getIssue('issue-retry'))?.status).toBe('blocked');
+
+    const run = logger.getRun(approved.run_id);
+    expect(run?.outcome?.artifacts).toEqual(['temp-e2e-test/workspace/feature.ts']);
+    expect(readFileSync(join(tempDir, 'workspace', 'feature.ts'), 'utf-8')).toBe(
+      'export const feature = true;\n'
+    );
+  });
+
+  it('should run every phase of a policy through the worker loop', async () => {
+    // Only the issue under test is ready
+    await issues.updateIssue('issue-retry', { status: 'closed' });
+    await issues.updateIssue('issue-stall', { status: 'closed' });
+
+    const running = worker.start();
+    const deadline = Date.now() + 5000;
+    while ((await issues.getIssue('issue-close'))?.status !== 'closed' && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    worker.stop();
+    await running;
+
+    expect((await issues.getIssue('issue-close'))?.status).toBe('closed');
+    const runs = logger.queryRuns({ issue_id: 'issue-close' });
+    expect(runs.map((run) => run.phase).sort()).toEqual(['implement', 'plan']);
+    expect(runs.every((run) => run.status === 'completed')).toBe(true);
+  });
+
+  it('should render phase prompts with the handoff of earlier phases', async () => {
+    const plan = (await issues.getIssue('issue-close'))!;
+    expect(worker.renderPrompt(plan)).toContain('# Task: issue-close');
+
+    await processIssue('issue-close');
+    const prompt = worker.renderPrompt((await issues.getIssue('issue-close'))!);
+
+    expect(prompt).toStartWith('Implement issue-close on ');
+    expect(prompt).toContain('attempt 1 of 3');
+    expect(prompt).toContain('### plan (mock-agent)\nDone');
+    expect(prompt).toContain('## Reporting Your Result');
+    expect(() => worker.renderPrompt(plan, { phase: 'deploy' })).toThrow("Phase 'deploy' not found");
+  });
+
+  it('should loop back on failure until the loop limit blocks the workflow', async () => {
+    const phases: Array<string | undefined> = [];
+    for (let i = 0; i < 4; i++) {
+      phases.push((await processIssue('issue-loop', 'looping')).next_phase);
+    }
+
+    expect(phases).toEqual(['test', 'implement', 'test', undefined]);
+    expect(logger.getWorkflowState('issue-loop')?.loop_counts).toEqual({ test: 1 });
+    expect(logger.getWorkflowState('issue-loop')?.status).toBe('blocked');
+    expect((await issues.getIssue('issue-loop'))?.status).toBe('blocked');
+  });
+
+  it('should fan out a parallel group and retry only its failed members', async () => {
+    expect((await processIssue('issue-group', 'fanout')).next_phase).toBe('polish');
+
+    const first = await processIssue('issue-group', 'fanout');
+    expect(first.success).toBe(false);
+    expect(first.run_ids).toHaveLength(2);
+    const runs = first.run_ids!.map((id) => logger.getRun(id)!);
+    expect(runs.map((run) => [run.phase, run.status, run.metadata?.group])).toEqual([
+      ['docs', 'completed', 'polish'],
+      ['tests', 'failed', 'polish'],
+    ]);
+
+    const second = await processIssue('issue-group', 'fanout');
+    expect(second.success).toBe(true);
+    expect(second.run_ids!.map((id) => logger.getRun(id)?.phase)).toEqual(['tests']);
+    expect(second.next_phase).toBe('review');
+
+    // The joint review sees the work of both branches
+    const prompt = worker.renderPrompt((await issues.getIssue('issue-group'))!);
+    expect(prompt).toContain('### docs (mock-agent)');
+    expect(prompt).toContain('### tests (mock-agent)');
+  });
+
+  it('should complete a parallel group once its quorum succeeds', async () => {
+    const result = await processIssue('issue-quorum', 'quorum');
+
+    expect(result.success).toBe(true);
+    expect(result.next_phase).toBe('review');
+    expect(result.run_ids!.map((id) => logger.getRun(id)?.status)).toEqual(['completed', 'failed']);
+  });
+
+  it('should route approval decisions and pass rejection notes to the next phase', async () => {
+    await processIssue('issue-close', 'reviewed');
+    const review = await processIssue('issue-close', 'reviewed');
+    expect(review.message).toBe('Human approval required');
+    expect((await issues.getIssue('issue-close'))?.status).toBe('blocked');
+
+    const pending = logger.getPendingApproval('issue-close');
+    expect(pending).toMatchObject({ phase: 'review', summary: 'Done', approvers: ['alice'], run_id: review.run_id });
+    await expect(worker.resolveApproval('issue-close', { approved: true, approver: 'bob' }))
+      .rejects.toThrow('bob may not decide on issue-close (approvers: alice)');
+
+    const rejected = await worker.resolveApproval('issue-close', {
+      approved: false,
+      approver: 'alice',
+      note: 'Missing tests for the edge case',
+    });
+    expect(rejected.transition).toMatchObject({ type: 'advance', next_phase: 'implement' });
+    expect((await issues.getIssue('issue-close'))?.status).toBe('open');
+    expect(worker.renderPrompt((await issues.getIssue('issue-close'))!)).toContain(
+      "The result of phase 'review' was rejected by alice:\nMissing tests for the edge case"
+    );
+
+    await processIssue('issue-close', 'reviewed');
+    expect(worker.renderPrompt((await issues.getIssue('issue-close'))!)).not.toContain('## Review Feedback');
+    await processIssue('issue-close', 'reviewed');
+
+    const approved = await worker.resolveApproval('issue-close', { approved: true, approver: 'alice' });
+    expect(approved.transition.type).toBe('close');
+    expect((await issues.getIssue('issue-close'))?.status).toBe('closed');
+    expect(logger.listApprovals({ issue_id: 'issue-close' }).map((approval) => approval.status))
+      .toEqual(['rejected', 'approved']);
+  });
+
+  it('should block on an agent question and re-run the phase with the answer', async () => {
+    await processIssue('issue-question');
+    const asked = await processIssue('issue-question');
+    expect(asked.success).toBe(false);
+    expect(asked.message).toBe('Waiting for an answer to: Which database should the cache use?');
+    expect(logger.getRun(asked.run_id)?.status).toBe('blocked');
+    expect((await issues.getIssue('issue-question'))?.status).toBe('blocked');
+    expect(logger.getPendingQuestion('issue-question')).toMatchObject({
+      phase: 'implement',
+      run_id: asked.run_id,
+      options: ['PostgreSQL', 'SQLite'],
+    });
+
+    const { remaining } = await worker.answerQuestion('issue-question', {
+      answer: 'Use PostgreSQL',
+      answered_by: 'alice',
+    });
+    expect(remaining).toBe(0);
+    expect((await issues.getIssue('issue-question'))?.status).toBe('open');
+
+    // The question did not use up an attempt
+    const prompt = worker.renderPrompt((await issues.getIssue('issue-question'))!);
+    expect(prompt).toContain('attempt 1 of 3');
+    expect(prompt).toContain('Q: Which database should the cache use?\nA (alice): Use PostgreSQL');
+
+    const answered = await processIssue('issue-question');
+    expect(answered.success).toBe(true);
+    expect(logger.getRun(answered.run_id)?.outcome?.message).toBe('Implemented the cache on PostgreSQL');
+    expect((await issues.getIssue('issue-question'))?.status).toBe('closed');
+    await expect(worker.answerQuestion('issue-question', { answer: 'SQLite', answered_by: 'alice' }))
+      .rejects.toThrow('Issue issue-question has no pending question');
+  });
+
+  it('should run a phase no agent matches on the configured fallback agent', async () => {
+    const issue = (await issues.getIssue('issue-close'))!;
+    expect((await worker.processIssue(issue, { policy: 'audited' })).message).toBe('No suitable agent available');
+
+    const fallbackWorker = new WorkerEngine(
+      {},
+      {
+        issues,
+        policyEngine,
+        agentRegistry: new AgentRegistry(join(tempDir, 'agents.yaml'), {
+          version: '1.0',
+          fallback: { enabled: true, default_agent: 'mock-agent' },
+        }),
+        logger,
+        processRegistry,
+      }
+    );
+    const result = await fallbackWorker.processIssue(issue, { policy: 'audited' });
+
+    expect(result.success).toBe(true);
+    expect(logger.getRun(result.run_id)?.agent_id).toBe('mock-agent');
+    const selection = logger.getDecisions(result.run_id).find((decision) => decision.type === 'agent_selection');
+    expect(selection).toMatchObject({
+      decision: 'mock-agent',
+      reasoning: 'No agent matched capabilities: security; using global default_agent',
+      metadata: { fallback: true, fallback_level: 'global', capability: 'security' },
+    });
+  });
+
+  it('should defer group members until their agent has capacity', async () => {
+    const agentRegistry = new AgentRegistry(join(tempDir, 'agents.yaml'));
+    agentRegistry.registerAgent({ ...agentRegistry.getAgent('mock-agent')!, max_concurrent: 1 });
+    const limited = new WorkerEngine({}, { issues, policyEngine, agentRegistry, logger, processRegistry });
+    const issue = (await issues.getIssue('issue-close'))!;
+
+    await limited.processIssue(issue, { policy: 'fanout' });
+    const partial = await limited.processIssue(issue, { policy: 'fanout' });
+    expect(partial.message).toBe('Waiting for a free agent for: tests');
+    expect(logger.getRun(partial.run_id)?.phase).toBe('docs');
+    expect(agentRegistry.getInFlightCount('mock-agent')).toBe(0);
+    expect((await issues.getIssue('issue-close'))?.status).toBe('open');
+
+    const joined = await limited.processIssue(issue, { policy: 'fanout' });
+    expect(logger.getRun(joined.run_id)?.phase).toBe('tests');
+    expect(joined.next_phase).toBe('review');
+  });
+
+  it('should move in-flight workflows onto a changed policy', async () => {
+    const plan = await processIssue('issue-close');
+    const oldHash = policyEngine.getPolicyHash('default');
+    expect(logger.getRun(plan.run_id)?.policy_hash).toBe(oldHash!);
+
+    // Rename the phase the issue is at
+    writeFileSync(
+      join(tempDir, 'policies.yaml'),
+      POLICIES.replace('      - name: implement\n        capabilities: [coding]\n        prompt_template', '      - name: build\n        capabilities: [coding]\n        prompt_template')
+        .replace('    timeout_base_ms: 60000', '    timeout_base_ms: 60000\n    migration:\n      strategy: map\n      phase_map:\n        implement: build')
+    );
+    policyEngine.loadPolicies(join(tempDir, 'policies.yaml'));
+
+    const build = await processIssue('issue-close');
+    const run = logger.getRun(build.run_id)!;
+    expect(run.phase).toBe('build');
+    expect(run.policy_hash).toBe(policyEngine.getPolicyHash('default')!);
+    expect(run.policy_hash).not.toBe(oldHash!);
+    expect(logger.getDecisions(build.run_id).find((d) => d.type === 'policy_migration')?.decision).toBe('map');
+    expect((await issues.getIssue('issue-close'))?.status).toBe('closed');
+  });
+
+  it('should finish a workflow on its old version when its phase is gone', async () => {
+    await processIssue('issue-close');
+    const oldHash = policyEngine.getPolicyHash('default');
+
+    // Drop the phase the issue is at, with no phase map
+    writeFileSync(
+      join(tempDir, 'policies.yaml'),
+      POLICIES.replace('      - name: implement\n        capabilities: [coding]\n        prompt_template', '      - name: build\n        capabilities: [coding]\n        prompt_template')
+    );
+    policyEngine.loadPolicies(join(tempDir, 'policies.yaml'));
+
+    const result = await processIssue('issue-close');
+    const run = logger.getRun(result.run_id)!;
+    expect(run.phase).toBe('implement');
+    expect(run.policy_hash).toBe(oldHash!);
+    expect(logger.getWorkflowState('issue-close')?.policy_hash).toBe(oldHash!);
+    expect((await issues.getIssue('issue-close'))?.status).toBe('closed');
+  });
+
+  it('should record a continued migration once for the rest of the workflow', async () => {
+    await processIssue('issue-close', 'fanout');
+
+    // Rename the rest of the policy, with no phase map
+    writeFileSync(
+      join(tempDir, 'policies.yaml'),
+      POLICIES.replace('      - name: polish\n        parallel:', '      - name: finish\n        parallel:')
+        .replace('      - name: review\n        capabilities: [coding]\n\n  quorum:', '      - name: check\n        capabilities: [coding]\n\n  quorum:')
+    );
+    policyEngine.loadPolicies(join(tempDir, 'policies.yaml'));
+
+    const polish = await processIssue('issue-close', 'fanout');
+    expect(polish.next_phase).toBe('review');
+    const review = await processIssue('issue-close', 'fanout');
+    expect(logger.getRun(review.run_id)?.phase).toBe('review');
+    expect((await issues.getIssue('issue-close'))?.status).toBe('closed');
+
+    const migrations = logger.getIssueDecisions('issue-close', 'policy_migration');
+    expect(migrations.map((decision) => decision.decision)).toEqual(['continue']);
+  });
+
+  it('should let the monitor abort a stalled run', async () => {
+    await processIssue('issue-stall');
+
+    const monitor = new MonitorEngine(
+      { poll_interval_ms: 50 },
+      { issues, policyEngine, logger, processRegistry }
+    );
+    const monitoring = monitor.start();
+
+    const started = Date.now();
+    const result = await processIssue('issue-stall');
+    monitor.stop();
+    await monitoring;
+
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(result.success).toBe(false);
+    expect(logger.getRun(result.run_id)?.outcome?.error_code).toBe('STALLED');
+    expect((await issues.getIssue('issue-stall'))?.status).toBe('open');
+  });
+
+  it('should time a run out by the policy version it started on', async () => {
+    const oldHash = policyEngine.getPolicyHash('default')!;
+    logger.savePolicyVersion(oldHash, 'default', policyEngine.getPolicy('default')!);
+    logger.createRun({
+      id: 'run-pinned',
+      issue_id: 'issue-close',
+      session_id: '',
+      agent_id: 'mock-agent',
+      policy_name: 'default',
+      policy_hash: oldHash,
+      phase: 'implement',
+      status: 'running',
+    });
+
+    // The reloaded policy would have timed the run out already
+    writeFileSync(join(tempDir, 'policies.yaml'), POLICIES.replace('timeout_base_ms: 60000', 'timeout_base_ms: 1'));
+    policyEngine.loadPolicies(join(tempDir, 'policies.yaml'));
+
+    const monitor = new MonitorEngine(
+      { poll_interval_ms: 20 },
+      { issues, policyEngine, logger, processRegistry }
+    );
+    const monitoring = monitor.start();
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    monitor.stop();
+    await monitoring;
+
+    expect(logger.getRun('run-pinned')?.status).toBe('running');
+  });
+
+  it('should let the monitor record a question the worker did not', async () => {
+    // The worker stopped after the run asked but before recording its question
+    await issues.updateIssue('issue-question', { status: 'in_progress' });
+    logger.saveWorkflowState({
+      issue_id: 'issue-question',
+      policy_name: 'default',
+      current_phase: 'implement',
+      attempt_count: 0,
+      status: 'active',
+      phase_started_at: Date.now(),
+      created_at: Date.now(),
+    });
+    logger.createRun({
+      id: 'run-asked',
+      issue_id: 'issue-question',
+      session_id: '',
+      agent_id: 'mock-agent',
+      policy_name: 'default',
+      phase: 'implement',
+      status: 'blocked',
+      outcome: {
+        success: false,
+        message: 'The cache backend is undecided',
+        question: { text: 'Which database should the cache use?', options: ['PostgreSQL', 'SQLite'] },
+      },
+    });
+
+    const monitor = new MonitorEngine(
+      { poll_interval_ms: 20 },
+      { issues, policyEngine, logger, processRegistry }
+    );
+    const monitoring = monitor.start();
+    const deadline = Date.now() + 5000;
+    while ((await issues.getIssue('issue-question'))?.status !== 'blocked' && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    // Further checks leave the recorded question alone
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    monitor.stop();
+    await monitoring;
+
+    expect((await issues.getIssue('issue-question'))?.status).toBe('blocked');
+    expect(logger.getWorkflowState('issue-question')).toMatchObject({ status: 'blocked', last_run_id: 'run-asked' });
+    expect(logger.listQuestions({ issue_id: 'issue-question' })).toHaveLength(1);
+    expect(logger.getPendingQuestion('issue-question')).toMatchObject({
+      run_id: 'run-asked',
+      question: 'Which database should the cache use?',
+      options: ['PostgreSQL', 'SQLite'],
+    });
+    expect(logger.getDecisions('run-asked').map((decision) => decision.decision)).toEqual(['question_asked']);
+
+    await worker.answerQuestion('issue-question', { answer: 'Use PostgreSQL', answered_by: 'alice' });
+    expect((await issues.getIssue('issue-question'))?.status).toBe('open');
+  });
+});